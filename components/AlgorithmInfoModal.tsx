@@ -7,11 +7,11 @@ import {
   TouchableOpacity,
   TouchableWithoutFeedback 
 } from 'react-native';
-import { algorithm } from  '../utils/algorithms';
+import { AlgorithmDefinition } from '../utils/algorithmRegistry';
 
 type AlgorithmInfoModalProps = {
   visible: boolean;
-  algorithm: algorithm | null;
+  algorithm: AlgorithmDefinition | null;
   onClose: () => void;
 };
 
@@ -22,59 +22,6 @@ const AlgorithmInfoModal: React.FC<AlgorithmInfoModalProps> = ({
 }) => {
   if (!algorithm) return null;
 
-  const algorithmsCharacteristics = {
-    'dijkstra': {
-      characteristics: [
-        '• Guarantees the shortest path in weighted graphs',
-        '• Time complexity: O(E + V log V)',
-        '• Space complexity: O(V)',
-        '• Ideal for route planning with variable costs',
-        '• Does not use any heuristic information'
-      ],
-      advantages: 'Guarantees optimal solutions and works well for all types of weighted graphs.',
-      disadvantages: 'Can be slower than informed search algorithms as it explores in all directions.'
-    },
-    'a-star': {
-      characteristics: [
-        '• Uses heuristics to speed up search',
-        '• Time complexity: O(E)',
-        '• Space complexity: O(V)',
-        '• Best for scenarios with spatial information',
-        '• Can significantly outperform Dijkstra when heuristics are good'
-      ],
-      advantages: 'Usually expands fewer nodes than Dijkstra while still finding optimal paths.',
-      disadvantages: 'Performance depends heavily on the quality of the heuristic function.'
-    },
-    'd-star': {
-      characteristics: [
-        '• Designed for partially known or changing environments',
-        '• Time complexity: O(E log V)',
-        '• Space complexity: O(V)',
-        '• Can replan paths when environment changes',
-        '• Useful for real-time navigation in unknown terrain'
-      ],
-      advantages: 'Efficient for dynamic environments where the map changes.',
-      disadvantages: 'More complex implementation and higher computational overhead.'
-    },
-    'd-star-lite': {
-      characteristics: [
-        '• Modern variant of D* with improved efficiency',
-        '• Time complexity: O(E log V)',
-        '• Space complexity: O(V)',
-        '• Incrementally repairs paths when environment changes',
-        '• Uses heuristic information like A*'
-      ],
-      advantages: 'Faster replanning than original D* in dynamic environments.',
-      disadvantages: 'Still has higher complexity than static algorithms like A*.'
-    }
-  };
-
-  const getAlgorithmInfo = (id: string) => {
-    return algorithmsCharacteristics[id as keyof typeof algorithmsCharacteristics];
-  };
-
-  const info = getAlgorithmInfo(algorithm.id);
-
   return (
     <Modal
       animationType="fade"
@@ -88,7 +35,7 @@ const AlgorithmInfoModal: React.FC<AlgorithmInfoModalProps> = ({
             <View style={styles.modalContent}>
               <View style={styles.modalHeader}>
                 <Text style={styles.modalTitle}>{algorithm.name}</Text>
-                <View style={[styles.algorithmTag, styles[`${algorithm.id}Tag`]]}>
+                <View style={[styles.algorithmTag, { backgroundColor: `${algorithm.color}33` }]}>
                   <Text style={styles.algorithmTagText}>{algorithm.category}</Text>
                 </View>
               </View>
@@ -98,21 +45,27 @@ const AlgorithmInfoModal: React.FC<AlgorithmInfoModalProps> = ({
               <View style={styles.section}>
                 <Text style={styles.sectionTitle}>Characteristics</Text>
                 <View style={styles.characteristicsBox}>
-                  {info.characteristics.map((item, index) => (
-                    <Text key={index} style={styles.characteristicsText}>{item}</Text>
+                  <Text style={styles.characteristicsText}>• Time complexity: {algorithm.complexity.time}</Text>
+                  <Text style={styles.characteristicsText}>• Space complexity: {algorithm.complexity.space}</Text>
+                  {algorithm.characteristics?.map((item, index) => (
+                    <Text key={index} style={styles.characteristicsText}>• {item}</Text>
                   ))}
                 </View>
               </View>
               
-              <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Advantages</Text>
-                <Text style={styles.sectionText}>{info.advantages}</Text>
-              </View>
+              {algorithm.advantages && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Advantages</Text>
+                  <Text style={styles.sectionText}>{algorithm.advantages}</Text>
+                </View>
+              )}
               
-              <View style={styles.section}>
-                <Text style={styles.sectionTitle}>Disadvantages</Text>
-                <Text style={styles.sectionText}>{info.disadvantages}</Text>
-              </View>
+              {algorithm.disadvantages && (
+                <View style={styles.section}>
+                  <Text style={styles.sectionTitle}>Disadvantages</Text>
+                  <Text style={styles.sectionText}>{algorithm.disadvantages}</Text>
+                </View>
+              )}
               
               <TouchableOpacity
                 style={styles.closeButton}
@@ -163,18 +116,6 @@ const styles = StyleSheet.create({
     paddingVertical: 4,
     borderRadius: 12,
   },
-  'dijkstraTag': {
-    backgroundColor: '#FFF3E0',
-  },
-  'a-starTag': {
-    backgroundColor: '#E8F5E9',
-  },
-  'd-starTag': {
-    backgroundColor: '#F3E5F5',
-  },
-  'd-star-liteTag': {
-    backgroundColor: '#E3F2FD',
-  },
   algorithmTagText: {
     fontSize: 12,
     fontWeight: '600',
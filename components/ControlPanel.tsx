@@ -9,29 +9,159 @@ import {
   Animated,
   Switch,
 } from 'react-native';
-import { algorithm } from '../utils/algorithms';
+
+import EpsilonSlider from './EpsilonSlider';
+import SolutionPlot from './SolutionPlot';
+import { AlgorithmDefinition, algorithms } from '../utils/algorithmRegistry';
+import { LandmarkStrategy, landmarkStrategies } from '../utils/alt';
+import { MIN_EPSILON, MAX_EPSILON, EPSILON_STEP } from '../utils/araStar';
+import { AvoidZone, zonePenalties } from '../utils/avoidZones';
+import { startingCharges } from '../utils/batteryRouting';
+import { closureTools } from '../utils/closures';
+import { Maneuver, RouteStep, formatStepDistance } from '../utils/instructions';
+import { MAX_K } from '../utils/kShortestPaths';
+import { nodeBudgets } from '../utils/memoryBounded';
+import { QueueKind, queueKinds } from '../utils/priorityQueues';
+import { QueueBenchmark, queueBenchmarkAlgorithms } from '../utils/queueBenchmark';
+import { JobStatus, jobTimeouts } from '../utils/scheduler';
+import { VehicleProfileId, vehicleProfiles } from '../utils/vehicleProfiles';
+import { WeightMetric, weightMetrics } from '../utils/weighting';
+
+const JOB_STATUS_LABELS: Record<JobStatus, string> = {
+  queued: 'Queued',
+  running: 'Running…',
+  done: 'Done',
+  failed: 'Failed',
+  'timed-out': 'Timed out',
+  cancelled: 'Cancelled',
+};
+
+const MANEUVER_ICONS: Record<Maneuver, string> = {
+  depart: '●',
+  continue: '↑',
+  'slight-left': '↖',
+  'slight-right': '↗',
+  left: '←',
+  right: '→',
+  'sharp-left': '↙',
+  'sharp-right': '↘',
+  'u-turn': '↶',
+  arrive: '◆',
+};
 
 type ControlPanelProps = {
   mapLoaded: boolean;
-  selectedAlgorithm: algorithm | null;
+  selectedAlgorithm: AlgorithmDefinition | null;
   startPoint: { lat: number; lng: number } | null;
   endPoint: { lat: number; lng: number } | null;
   isComputing: boolean;
   comparisonResults: Record<
   string,
-  { time: string; distance: string; nodes: number; edgesExplored: number; pathNodeCount: number }
+  {
+    time: string;
+    profile: string;
+    capacity: number;
+    closureChange?: string;
+    distance: string;
+    nodes: number;
+    edgesExplored: number;
+    pathNodeCount: number;
+    hops: number;
+    turns: string;
+    turnDelay?: string;
+    turnRestrictions?: string;
+    shortestHops?: number;
+    extraDistance?: string;
+    oneWayDetour?: string;
+    replanNodes?: number;
+    fullSearchNodes?: number;
+    reconsistentVertices?: number;
+    preprocessingTime?: string;
+    shortcutCount?: number;
+    speedup?: string;
+    landmarkStrategy?: string;
+    nodesSavedVsAStar?: number;
+    matrixSize?: number;
+    peakStoredNodes?: number;
+    chargeTime?: string;
+    chargingStops?: string;
+    finalCharge?: string;
+    energyUsed?: string;
+    aStarStoredNodes?: number;
+    alternatives?: { distance: string; overlap: string }[];
+    epsilon?: string;
+    bound?: string;
+    solutions?: { time: number; distance: number; bound: number }[];
+    referencePoints?: { label: string; time: number; distance: number }[];
+  }
   > | null;
   travelTime?: string;
   showVisitedNodes: boolean; // New prop for toggle state
   onShowVisitedNodesChange: (value: boolean) => void; // New prop for toggle handler
-  onAlgorithmSelect: (algorithm: algorithm) => void;
-  onAlgorithmInfo: (algorithm: algorithm) => void;
+  onAlgorithmSelect: (algorithm: AlgorithmDefinition) => void;
+  onAlgorithmInfo: (algorithm: AlgorithmDefinition) => void;
+  comparedAlgorithms: string[];
+  onComparedAlgorithmToggle: (id: string) => void;
+  onCompareAll: (all: boolean) => void;
   onSelectStartPoint: () => void;
   onSelectEndPoint: () => void;
   onStartPathfinding: () => void;
+  onCancelPathfinding: () => void;
+  jobs: Record<string, { status: JobStatus; detail?: string }> | null;
+  queue: QueueKind;
+  onQueueChange: (queue: QueueKind) => void;
+  queueBenchmark: QueueBenchmark | null;
+  onBenchmarkQueues: () => void;
+  jobTimeout: number;
+  onJobTimeoutChange: (timeout: number) => void;
   onClearPoints: () => void;
   onSwapPoints: () => void;
   selectionMode: 'start' | 'end' | 'none';
+  landmarkStrategy: LandmarkStrategy;
+  onLandmarkStrategyChange: (strategy: LandmarkStrategy) => void;
+  k: number;
+  onKChange: (k: number) => void;
+  selectedAlternative: number;
+  onAlternativeSelect: (index: number) => void;
+  steps?: RouteStep[];
+  selectedStep: number | null;
+  onStepSelect: (index: number) => void;
+  epsilon: number;
+  onEpsilonChange: (epsilon: number) => void;
+  nodeBudget: number;
+  turnAware: boolean;
+  onTurnAwareChange: (value: boolean) => void;
+  banUTurns: boolean;
+  onBanUTurnsChange: (value: boolean) => void;
+  oneWayRules: boolean;
+  onOneWayRulesChange: (value: boolean) => void;
+  weightMetric: WeightMetric;
+  onWeightMetricChange: (metric: WeightMetric) => void;
+  profileId: VehicleProfileId;
+  onProfileChange: (profile: VehicleProfileId) => void;
+  onNodeBudgetChange: (budget: number) => void;
+  startingCharge: number;
+  onStartingChargeChange: (charge: number) => void;
+  closureMode: boolean;
+  onClosureModeChange: (value: boolean) => void;
+  closurePenalty: number;
+  onClosurePenaltyChange: (penalty: number) => void;
+  closureCount: number;
+  onClearClosures: () => void;
+  zones: AvoidZone[];
+  zonesEnabled: boolean;
+  onZonesEnabledChange: (value: boolean) => void;
+  zoneDrawing: boolean;
+  zoneDraftPoints: number;
+  onZoneDrawingChange: (value: boolean) => void;
+  onFinishZone: () => void;
+  zonePenalty: number;
+  onZonePenaltyChange: (penalty: number) => void;
+  onZoneToggle: (id: string) => void;
+  onZoneDelete: (id: string) => void;
+  onZoneImport: () => void;
+  progress: { label: string; value: number } | null;
+  onExportMatrix: (format: 'csv' | 'json') => void;
 };
 
 const ControlPanel: React.FC<ControlPanelProps> = ({
@@ -46,17 +176,74 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   onShowVisitedNodesChange,
   onAlgorithmSelect,
   onAlgorithmInfo,
+  comparedAlgorithms,
+  onComparedAlgorithmToggle,
+  onCompareAll,
   onSelectStartPoint,
   onSelectEndPoint,
   onStartPathfinding,
+  onCancelPathfinding,
+  jobs,
+  queue,
+  onQueueChange,
+  queueBenchmark,
+  onBenchmarkQueues,
+  jobTimeout,
+  onJobTimeoutChange,
   onClearPoints,
   onSwapPoints,
   selectionMode,
+  landmarkStrategy,
+  onLandmarkStrategyChange,
+  k,
+  onKChange,
+  selectedAlternative,
+  onAlternativeSelect,
+  steps,
+  selectedStep,
+  onStepSelect,
+  epsilon,
+  onEpsilonChange,
+  nodeBudget,
+  onNodeBudgetChange,
+  startingCharge,
+  onStartingChargeChange,
+  closureMode,
+  onClosureModeChange,
+  closurePenalty,
+  onClosurePenaltyChange,
+  closureCount,
+  onClearClosures,
+  zones,
+  zonesEnabled,
+  onZonesEnabledChange,
+  zoneDrawing,
+  zoneDraftPoints,
+  onZoneDrawingChange,
+  onFinishZone,
+  zonePenalty,
+  onZonePenaltyChange,
+  onZoneToggle,
+  onZoneDelete,
+  onZoneImport,
+  turnAware,
+  onTurnAwareChange,
+  banUTurns,
+  onBanUTurnsChange,
+  oneWayRules,
+  onOneWayRulesChange,
+  weightMetric,
+  onWeightMetricChange,
+  profileId,
+  onProfileChange,
+  progress,
+  onExportMatrix,
 }) => {
   const [expanded, setExpanded] = useState(false);
   const panelHeight = React.useRef(new Animated.Value(240)).current;
 
-  const { algorithms } = require('../utils/algorithms');
+  const parameters = selectedAlgorithm?.parameters ?? [];
+  const allCompared = comparedAlgorithms.length === algorithms.length;
 
   useEffect(() => {
     console.log('ControlPanel received props:');
@@ -66,10 +253,10 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   }, [selectedAlgorithm, comparisonResults, showVisitedNodes]);
 
   useEffect(() => {
-    if (comparisonResults && !expanded) {
+    if ((comparisonResults || isComputing) && !expanded) {
       toggleExpansion();
     }
-  }, [comparisonResults, expanded]);
+  }, [comparisonResults, isComputing, expanded]);
 
   const toggleExpansion = () => {
     const targetHeight = expanded ? 240 : 400; // Increased height to accommodate toggle
@@ -95,7 +282,7 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
     <View style={styles.algorithmScrollContainer}>
     <ScrollView horizontal showsHorizontalScrollIndicator={false} style={styles.algorithmScroll}>
-    {algorithms.map((algorithm: algorithm) => (
+    {algorithms.map((algorithm) => (
       <TouchableOpacity
       key={algorithm.id}
       onPress={() => onAlgorithmSelect(algorithm)}
@@ -119,6 +306,351 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
     </ScrollView>
     </View>
 
+    {/* The selected algorithm always runs; these are compared with it */}
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Compare</Text>
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+    <TouchableOpacity onPress={() => onCompareAll(!allCompared)} style={styles.optionButton}>
+    <Text style={styles.algorithmText}>{allCompared ? 'None' : 'All'}</Text>
+    </TouchableOpacity>
+    {algorithms.map((algorithm) => {
+      const compared = algorithm.id === selectedAlgorithm?.id || comparedAlgorithms.includes(algorithm.id);
+      return (
+        <TouchableOpacity
+        key={algorithm.id}
+        onPress={() => onComparedAlgorithmToggle(algorithm.id)}
+        disabled={algorithm.id === selectedAlgorithm?.id}
+        style={[
+          styles.optionButton,
+          compared ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={compared ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {algorithm.name}
+        </Text>
+        </TouchableOpacity>
+      );
+    })}
+    </ScrollView>
+    </View>
+
+    {parameters.includes('landmarkStrategy') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Landmarks</Text>
+      {landmarkStrategies.map((strategy) => (
+        <TouchableOpacity
+        key={strategy.id}
+        onPress={() => onLandmarkStrategyChange(strategy.id)}
+        style={[
+          styles.optionButton,
+          landmarkStrategy === strategy.id ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={landmarkStrategy === strategy.id ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {strategy.name}
+        </Text>
+        </TouchableOpacity>
+      ))}
+      </View>
+    )}
+
+    {parameters.includes('k') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Routes (k)</Text>
+      <TouchableOpacity
+      onPress={() => onKChange(Math.max(1, k - 1))}
+      disabled={k <= 1}
+      style={[styles.optionButton, k <= 1 ? styles.disabledButton : null]}
+      >
+      <Text style={styles.algorithmText}>−</Text>
+      </TouchableOpacity>
+      <Text style={styles.optionValue}>{k}</Text>
+      <TouchableOpacity
+      onPress={() => onKChange(Math.min(MAX_K, k + 1))}
+      disabled={k >= MAX_K}
+      style={[styles.optionButton, k >= MAX_K ? styles.disabledButton : null]}
+      >
+      <Text style={styles.algorithmText}>+</Text>
+      </TouchableOpacity>
+      </View>
+    )}
+
+    {parameters.includes('epsilon') && (
+      <View style={styles.optionRow}>
+      <EpsilonSlider
+      value={epsilon}
+      min={MIN_EPSILON}
+      max={MAX_EPSILON}
+      step={EPSILON_STEP}
+      onChange={onEpsilonChange}
+      />
+      </View>
+    )}
+
+    {parameters.includes('queue') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Queue</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {queueKinds.map((kind) => (
+        <TouchableOpacity
+        key={kind.id}
+        onPress={() => onQueueChange(kind.id)}
+        style={[
+          styles.optionButton,
+          queue === kind.id ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={queue === kind.id ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {kind.name}
+        </Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity
+      onPress={onBenchmarkQueues}
+      disabled={isComputing || !startPoint || !endPoint}
+      style={[styles.optionButton, isComputing || !startPoint || !endPoint ? styles.disabledButton : null]}
+      >
+      <Text style={styles.algorithmText}>Benchmark</Text>
+      </TouchableOpacity>
+      </ScrollView>
+      </View>
+    )}
+
+    {parameters.includes('turnCosts') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Turn costs</Text>
+      <Switch
+      value={turnAware}
+      onValueChange={onTurnAwareChange}
+      trackColor={{ false: '#767577', true: '#81b0ff' }}
+      thumbColor={turnAware ? '#2196F3' : '#f4f3f4'}
+      />
+      {turnAware && (
+        <>
+        <Text style={styles.optionLabel}>Ban U-turns</Text>
+        <Switch
+        value={banUTurns}
+        onValueChange={onBanUTurnsChange}
+        trackColor={{ false: '#767577', true: '#81b0ff' }}
+        thumbColor={banUTurns ? '#2196F3' : '#f4f3f4'}
+        />
+        </>
+      )}
+      </View>
+    )}
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Vehicle</Text>
+    {vehicleProfiles.map((profile) => (
+      <TouchableOpacity
+      key={profile.id}
+      onPress={() => onProfileChange(profile.id)}
+      style={[
+        styles.optionButton,
+        profileId === profile.id ? styles.selectedOptionButton : null,
+      ]}
+      >
+      <Text style={profileId === profile.id ? styles.selectedAlgorithmText : styles.algorithmText}>
+      {profile.name}
+      </Text>
+      </TouchableOpacity>
+    ))}
+    </View>
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Optimize</Text>
+    {weightMetrics.map((metric) => (
+      <TouchableOpacity
+      key={metric.id}
+      onPress={() => onWeightMetricChange(metric.id)}
+      style={[
+        styles.optionButton,
+        weightMetric === metric.id ? styles.selectedOptionButton : null,
+      ]}
+      >
+      <Text style={weightMetric === metric.id ? styles.selectedAlgorithmText : styles.algorithmText}>
+      {metric.name}
+      </Text>
+      </TouchableOpacity>
+    ))}
+    </View>
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>One-way rules</Text>
+    <Switch
+    value={oneWayRules}
+    onValueChange={onOneWayRulesChange}
+    trackColor={{ false: '#767577', true: '#81b0ff' }}
+    thumbColor={oneWayRules ? '#2196F3' : '#f4f3f4'}
+    />
+    </View>
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Edit closures</Text>
+    <Switch
+    value={closureMode}
+    onValueChange={onClosureModeChange}
+    trackColor={{ false: '#767577', true: '#81b0ff' }}
+    thumbColor={closureMode ? '#2196F3' : '#f4f3f4'}
+    />
+    {closureMode && closureTools.map((tool) => (
+      <TouchableOpacity
+      key={tool.id}
+      onPress={() => onClosurePenaltyChange(tool.penalty)}
+      style={[
+        styles.optionButton,
+        closurePenalty === tool.penalty ? styles.selectedOptionButton : null,
+      ]}
+      >
+      <Text style={closurePenalty === tool.penalty ? styles.selectedAlgorithmText : styles.algorithmText}>
+      {tool.name}
+      </Text>
+      </TouchableOpacity>
+    ))}
+    {closureCount > 0 && (
+      <TouchableOpacity onPress={onClearClosures} style={styles.optionButton}>
+      <Text style={styles.algorithmText}>Clear ({closureCount})</Text>
+      </TouchableOpacity>
+    )}
+    </View>
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Avoid zones</Text>
+    <Switch
+    value={zonesEnabled}
+    onValueChange={onZonesEnabledChange}
+    trackColor={{ false: '#767577', true: '#81b0ff' }}
+    thumbColor={zonesEnabled ? '#2196F3' : '#f4f3f4'}
+    />
+    <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+    {zoneDrawing ? (
+      <>
+      {zonePenalties.map((tool) => (
+        <TouchableOpacity
+        key={tool.id}
+        onPress={() => onZonePenaltyChange(tool.penalty)}
+        style={[
+          styles.optionButton,
+          zonePenalty === tool.penalty ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={zonePenalty === tool.penalty ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {tool.name}
+        </Text>
+        </TouchableOpacity>
+      ))}
+      <TouchableOpacity onPress={onFinishZone} style={styles.optionButton}>
+      <Text style={styles.algorithmText}>Finish ({zoneDraftPoints})</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => onZoneDrawingChange(false)} style={styles.optionButton}>
+      <Text style={styles.algorithmText}>Cancel</Text>
+      </TouchableOpacity>
+      </>
+    ) : (
+      <>
+      <TouchableOpacity onPress={() => onZoneDrawingChange(true)} style={styles.optionButton}>
+      <Text style={styles.algorithmText}>Draw</Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={onZoneImport} style={styles.optionButton}>
+      <Text style={styles.algorithmText}>Import</Text>
+      </TouchableOpacity>
+      </>
+    )}
+    </ScrollView>
+    </View>
+
+    {zones.length > 0 && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Zones</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {zones.map((zone) => (
+        <TouchableOpacity
+        key={zone.id}
+        onPress={() => onZoneToggle(zone.id)}
+        onLongPress={() => onZoneDelete(zone.id)}
+        style={[
+          styles.optionButton,
+          zone.enabled ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={zone.enabled ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {zone.name} {zone.penalty === Infinity ? '✕' : `×${zone.penalty}`}
+        </Text>
+        </TouchableOpacity>
+      ))}
+      </ScrollView>
+      </View>
+    )}
+
+    {parameters.includes('nodeBudget') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Node budget</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {nodeBudgets.map((budget) => (
+        <TouchableOpacity
+        key={budget}
+        onPress={() => onNodeBudgetChange(budget)}
+        style={[
+          styles.optionButton,
+          nodeBudget === budget ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={nodeBudget === budget ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {budget}
+        </Text>
+        </TouchableOpacity>
+      ))}
+      </ScrollView>
+      </View>
+    )}
+
+    {parameters.includes('startingCharge') && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>Starting charge</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+      {startingCharges.map((charge) => (
+        <TouchableOpacity
+        key={charge}
+        onPress={() => onStartingChargeChange(charge)}
+        style={[
+          styles.optionButton,
+          startingCharge === charge ? styles.selectedOptionButton : null,
+        ]}
+        >
+        <Text style={startingCharge === charge ? styles.selectedAlgorithmText : styles.algorithmText}>
+        {charge}%
+        </Text>
+        </TouchableOpacity>
+      ))}
+      </ScrollView>
+      </View>
+    )}
+
+    <View style={styles.optionRow}>
+    <Text style={styles.optionLabel}>Timeout</Text>
+    {jobTimeouts.map((timeout) => (
+      <TouchableOpacity
+      key={timeout}
+      onPress={() => onJobTimeoutChange(timeout)}
+      style={[
+        styles.optionButton,
+        jobTimeout === timeout ? styles.selectedOptionButton : null,
+      ]}
+      >
+      <Text style={jobTimeout === timeout ? styles.selectedAlgorithmText : styles.algorithmText}>
+      {timeout / 1000}s
+      </Text>
+      </TouchableOpacity>
+    ))}
+    </View>
+
+    {isComputing && progress && (
+      <View style={styles.optionRow}>
+      <Text style={styles.optionLabel}>{progress.label}</Text>
+      <Text style={styles.optionValue}>{(progress.value * 100).toFixed(0)}%</Text>
+      </View>
+    )}
+
     <View style={styles.actionContainer}>
     <View style={styles.pointButtonsRow}>
     <TouchableOpacity
@@ -194,13 +726,17 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
   <TouchableOpacity
   style={[
     styles.findPathButton,
+    isComputing ? styles.cancelPathButton : null,
     (!selectedAlgorithm || !startPoint || !endPoint) ? styles.disabledButton : null,
   ]}
-  disabled={!selectedAlgorithm || !startPoint || !endPoint || isComputing}
-  onPress={onStartPathfinding}
+  disabled={!selectedAlgorithm || !startPoint || !endPoint}
+  onPress={isComputing ? onCancelPathfinding : onStartPathfinding}
   >
   {isComputing ? (
+    <View style={styles.cancelPathContent}>
     <ActivityIndicator color="white" size="small" />
+    <Text style={styles.findPathButtonText}> Cancel</Text>
+    </View>
   ) : (
     <Text style={styles.findPathButtonText}>Find Path</Text>
   )}
@@ -210,6 +746,55 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
 
   {expanded && (
     <ScrollView style={styles.resultsScrollView} contentContainerStyle={styles.resultsScrollContent}>
+    {/* Each algorithm's job as it finishes; kept after the run if any did not complete */}
+    {jobs && (isComputing || Object.values(jobs).some((job) => job.status !== 'done')) && (
+      <View style={styles.resultsContainer}>
+      <View style={styles.alternativesBox}>
+      <Text style={styles.toggleLabel}>Run</Text>
+      {algorithms
+        .filter((algorithm) => jobs[algorithm.id])
+        .map((algorithm) => (
+          <View key={algorithm.id} style={styles.alternativeItem}>
+          <Text style={styles.resultLabel}>{algorithm.name}</Text>
+          <Text style={styles.resultValue}>
+          {jobs[algorithm.id].status === 'done' || jobs[algorithm.id].status === 'failed'
+            ? jobs[algorithm.id].detail ?? JOB_STATUS_LABELS[jobs[algorithm.id].status]
+            : JOB_STATUS_LABELS[jobs[algorithm.id].status]}
+          </Text>
+          </View>
+        ))}
+      </View>
+      </View>
+    )}
+    {/* Median time of each queue-based algorithm with each queue, fastest marked */}
+    {queueBenchmark && (
+      <View style={styles.resultsContainer}>
+      <View style={styles.alternativesBox}>
+      <Text style={styles.toggleLabel}>Queue Benchmark</Text>
+      {queueBenchmarkAlgorithms()
+        .filter((algorithm) => queueBenchmark[algorithm.id])
+        .map((algorithm) => {
+          const cells = queueBenchmark[algorithm.id];
+          const fastest = Math.min(...queueKinds.map((kind) => cells[kind.id]?.time ?? Infinity));
+          return (
+            <View key={algorithm.id} style={styles.alternativeItem}>
+            <Text style={styles.resultLabel}>{algorithm.name}</Text>
+            <Text style={styles.resultValue}>
+            {queueKinds
+              .filter((kind) => cells[kind.id])
+              .map((kind) => {
+                const cell = cells[kind.id]!;
+                const value = cell.time !== undefined ? `${cell.time.toFixed(1)}ms` : JOB_STATUS_LABELS[cell.status];
+                return `${kind.name} ${value}${cell.time === fastest ? ' ★' : ''}`;
+              })
+              .join('\n')}
+            </Text>
+            </View>
+          );
+        })}
+      </View>
+      </View>
+    )}
     {comparisonResults && selectedAlgorithm ? (
       <View style={styles.resultsContainer}>
       <Text style={styles.resultsTitle}>Results for {selectedAlgorithm?.name}:</Text>
@@ -217,6 +802,14 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         <View>
         <View style={styles.resultsBox}>
         <View style={styles.resultItem}>
+        <Text style={styles.resultLabel}>Profile</Text>
+        <Text style={styles.resultValue}>
+        {comparisonResults[selectedAlgorithm.id]
+          ? `${comparisonResults[selectedAlgorithm.id].profile} , capacity ${comparisonResults[selectedAlgorithm.id].capacity}`
+          : '---'}
+        </Text>
+        </View>
+        <View style={styles.resultItem}>
         <Text style={styles.resultLabel}>Exec. Time</Text>
         <Text style={styles.resultValue}>
         {comparisonResults[selectedAlgorithm.id]?.time || '---'}
@@ -252,7 +845,275 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
         {comparisonResults[selectedAlgorithm.id]?.pathNodeCount || '---'}
         </Text>
         </View>
+        <View style={styles.resultItem}>
+        <Text style={styles.resultLabel}>Hops</Text>
+        <Text style={styles.resultValue}>
+        {comparisonResults[selectedAlgorithm.id]?.hops ?? '---'}
+        </Text>
+        </View>
+        <View style={styles.resultItem}>
+        <Text style={styles.resultLabel}>Turns</Text>
+        <Text style={styles.resultValue}>
+        {comparisonResults[selectedAlgorithm.id]?.turns ?? '---'}
+        </Text>
         </View>
+        {comparisonResults[selectedAlgorithm.id]?.turnDelay !== undefined && (
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Turn Delay</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.turnDelay}
+          </Text>
+          </View>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.turnRestrictions !== undefined && (
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Turn Restrictions</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.turnRestrictions}
+          </Text>
+          </View>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.oneWayDetour !== undefined && (
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>One-way Detour</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.oneWayDetour}
+          </Text>
+          </View>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.shortestHops !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Dijkstra Hops</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.shortestHops}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Extra Distance</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.extraDistance ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.replanNodes !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Replan Nodes</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.replanNodes}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Full Re-search</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.fullSearchNodes ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.reconsistentVertices !== undefined && (
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Reconsistent Vertices</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.reconsistentVertices}
+          </Text>
+          </View>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.preprocessingTime !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Preprocessing</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.preprocessingTime}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Shortcuts</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.shortcutCount ?? '---'}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Query Speedup</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.speedup ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.landmarkStrategy !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Landmarks</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.landmarkStrategy}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Fewer Nodes vs A*</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.nodesSavedVsAStar ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.chargeTime !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Charge Time</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.chargeTime}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Charging Stops</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.chargingStops || 'None'}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Energy Used</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.energyUsed ?? '---'}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Arrival Charge</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.finalCharge ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.peakStoredNodes !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Peak Stored Nodes</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.peakStoredNodes}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>A* Stores</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.aStarStoredNodes ?? '---'}
+          </Text>
+          </View>
+          </>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.matrixSize !== undefined && (
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Matrix Nodes</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.matrixSize}
+          </Text>
+          </View>
+        )}
+        {comparisonResults[selectedAlgorithm.id]?.epsilon !== undefined && (
+          <>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Final Epsilon</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.epsilon}
+          </Text>
+          </View>
+          <View style={styles.resultItem}>
+          <Text style={styles.resultLabel}>Suboptimality Bound</Text>
+          <Text style={styles.resultValue}>
+          {comparisonResults[selectedAlgorithm.id]?.bound}
+          </Text>
+          </View>
+          </>
+        )}
+        </View>
+
+        {/* Solution cost over time for anytime searches */}
+        {comparisonResults[selectedAlgorithm.id]?.solutions && (
+          <SolutionPlot
+          solutions={comparisonResults[selectedAlgorithm.id]!.solutions!}
+          references={comparisonResults[selectedAlgorithm.id]?.referencePoints?.map((point) => ({
+            ...point,
+            color: point.label === 'GBFS' ? '#FF00FF' : '#4CAF50',
+          }))}
+          />
+        )}
+
+        {/* Distance matrix export for all-pairs algorithms */}
+        {comparisonResults[selectedAlgorithm.id]?.matrixSize !== undefined && (
+          <View style={styles.optionRow}>
+          <Text style={styles.optionLabel}>Export matrix</Text>
+          <TouchableOpacity onPress={() => onExportMatrix('csv')} style={styles.optionButton}>
+          <Text style={styles.algorithmText}>CSV</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onExportMatrix('json')} style={styles.optionButton}>
+          <Text style={styles.algorithmText}>JSON</Text>
+          </TouchableOpacity>
+          </View>
+        )}
+
+        {/* Alternative routes from k-shortest paths */}
+        {comparisonResults[selectedAlgorithm.id]?.alternatives && (
+          <View style={styles.alternativesBox}>
+          {comparisonResults[selectedAlgorithm.id]!.alternatives!.map((route, index) => (
+            <TouchableOpacity
+            key={index}
+            onPress={() => onAlternativeSelect(index)}
+            style={[
+              styles.alternativeItem,
+              selectedAlternative === index ? styles.selectedAlternativeItem : null,
+            ]}
+            >
+            <Text style={styles.toggleLabel}>Route {index + 1}</Text>
+            <Text style={styles.resultValue}>{route.distance}</Text>
+            <Text style={styles.resultLabel}>{route.overlap} shared with best</Text>
+            </TouchableOpacity>
+          ))}
+          </View>
+        )}
+
+        {/* Turn-by-turn directions; tapping a step zooms the map to it */}
+        {steps && steps.length > 0 && (
+          <View style={styles.alternativesBox}>
+          <Text style={styles.toggleLabel}>Directions</Text>
+          {steps.map((step, index) => (
+            <TouchableOpacity
+            key={index}
+            onPress={() => onStepSelect(index)}
+            style={[
+              styles.alternativeItem,
+              selectedStep === index ? styles.selectedAlternativeItem : null,
+            ]}
+            >
+            <Text style={styles.maneuverIcon}>{MANEUVER_ICONS[step.maneuver]}</Text>
+            <Text style={styles.stepInstruction}>{step.instruction}</Text>
+            {step.distance > 0 && <Text style={styles.resultLabel}>{formatStepDistance(step.distance)}</Text>}
+            </TouchableOpacity>
+          ))}
+          </View>
+        )}
+
+        {/* How each algorithm's route reacted to the last closure edit */}
+        {Object.values(comparisonResults).some((result) => result.closureChange !== undefined) && (
+          <View style={styles.alternativesBox}>
+          <Text style={styles.toggleLabel}>Closure Impact</Text>
+          {algorithms
+            .filter((algorithm) => comparisonResults[algorithm.id]?.closureChange !== undefined)
+            .map((algorithm) => (
+              <View
+              key={algorithm.id}
+              style={[
+                styles.alternativeItem,
+                selectedAlgorithm.id === algorithm.id ? styles.selectedAlternativeItem : null,
+              ]}
+              >
+              <Text style={styles.resultLabel}>{algorithm.name}</Text>
+              <Text style={styles.resultValue}>{comparisonResults[algorithm.id].closureChange}</Text>
+              </View>
+            ))}
+          </View>
+        )}
 
         {/* Toggle for Visited Nodes */}
         <View style={styles.toggleContainer}>
@@ -270,14 +1131,23 @@ const ControlPanel: React.FC<ControlPanelProps> = ({
       )}
       <View style={styles.descriptionBox}>
       <Text style={styles.descriptionText}>
-      {selectedAlgorithm?.id === 'dijkstra' &&
-        "Dijkstra's algorithm guarantees the shortest path but explores more nodes than A*."}
-        {selectedAlgorithm?.id === 'a-star' &&
-          "A* uses heuristics to find paths more efficiently than Dijkstra, resulting in faster computation."}
-          {selectedAlgorithm?.id === 'bfs' &&
-            "Breadth-First Search explores nodes level by level, finding the path with the fewest edges (ignoring weights)."}
-            {selectedAlgorithm?.id === 'bellman-ford' &&
-              "Bellman-Ford finds the shortest path and can handle negative weights, but is slower than Dijkstra."}
+      {selectedAlgorithm.details}
+          {turnAware && parameters.includes('turnCosts') &&
+            " With turn costs on, the search runs over road segments instead of intersections, adding a delay for each left, right or sharp turn and skipping banned U-turns and restricted turns."}
+          {weightMetric === 'time' &&
+            " Edge costs are travel times from each road's speed limit, or its road-class default when untagged."}
+          {profileId === 'pedestrian' &&
+            " Pedestrians may use footways and walk one-way streets in both directions."}
+          {closureMode &&
+            " Tap a street to close it or apply the chosen penalty; tap it again with the same tool to reopen it. The last query reruns after each edit, with the previous path dashed in grey."}
+          {zoneDrawing &&
+            " Tap the map to place the zone's corners, then Finish. Routes avoid a red zone entirely and pay the chosen multiplier through an orange one."}
+          {zones.length > 0 && !zoneDrawing &&
+            (zonesEnabled
+              ? " Enabled avoid zones apply to the next run; tap a zone to switch it on or off, long-press to delete it."
+              : " Avoid zones are off for this run.")}
+          {!oneWayRules &&
+            " One-way rules are off: every street can be driven both ways, so the route may go against traffic."}
               </Text>
               </View>
               </View>
@@ -360,6 +1230,66 @@ const styles = StyleSheet.create({
     color: 'white',
     fontWeight: '600',
   },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  optionLabel: {
+    fontSize: 12,
+    color: '#757575',
+    marginRight: 8,
+  },
+  optionButton: {
+    marginRight: 6,
+    paddingVertical: 4,
+    paddingHorizontal: 10,
+    borderRadius: 14,
+    backgroundColor: '#f0f0f0',
+    borderWidth: 1,
+    borderColor: '#e0e0e0',
+  },
+  selectedOptionButton: {
+    backgroundColor: '#2196F3',
+    borderColor: '#1976D2',
+  },
+  optionValue: {
+    fontWeight: 'bold',
+    color: '#1976D2',
+    marginHorizontal: 8,
+  },
+  alternativesBox: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  alternativeItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+  },
+  selectedAlternativeItem: {
+    backgroundColor: '#E3F2FD',
+  },
+  maneuverIcon: {
+    width: 24,
+    fontSize: 16,
+    color: '#2196F3',
+    textAlign: 'center',
+  },
+  stepInstruction: {
+    flex: 1,
+    fontSize: 14,
+    color: '#333',
+    marginHorizontal: 8,
+  },
   actionContainer: {
     paddingHorizontal: 16,
     paddingVertical: 12,
@@ -443,6 +1373,13 @@ const styles = StyleSheet.create({
     justifyContent: 'center',
     flex: 1,
   },
+  cancelPathButton: {
+    backgroundColor: '#F44336',
+  },
+  cancelPathContent: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
   findPathButtonText: {
     color: 'white',
     fontWeight: 'bold',
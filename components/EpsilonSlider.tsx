@@ -0,0 +1,93 @@
+import React, { useRef, useState } from 'react';
+import { StyleSheet, Text, View, PanResponder, LayoutChangeEvent } from 'react-native';
+
+type EpsilonSliderProps = {
+  value: number;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+};
+
+// Minimal horizontal slider; react-native no longer ships one and the project has no slider dependency
+const EpsilonSlider: React.FC<EpsilonSliderProps> = ({ value, min, max, step, onChange }) => {
+  const [trackWidth, setTrackWidth] = useState(0);
+  const trackWidthRef = useRef(0);
+  const onChangeRef = useRef(onChange);
+  onChangeRef.current = onChange;
+
+  const valueAt = (x: number) => {
+    if (trackWidthRef.current <= 0) return min;
+    const ratio = Math.min(1, Math.max(0, x / trackWidthRef.current));
+    const stepped = Math.round((ratio * (max - min)) / step) * step + min;
+    return Number(stepped.toFixed(2));
+  };
+
+  const panResponder = useRef(
+    PanResponder.create({
+      onStartShouldSetPanResponder: () => true,
+      onMoveShouldSetPanResponder: () => true,
+      onPanResponderGrant: (event) => onChangeRef.current(valueAt(event.nativeEvent.locationX)),
+      onPanResponderMove: (event) => onChangeRef.current(valueAt(event.nativeEvent.locationX)),
+    })
+  ).current;
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    trackWidthRef.current = event.nativeEvent.layout.width;
+    setTrackWidth(event.nativeEvent.layout.width);
+  };
+
+  const ratio = (value - min) / (max - min);
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>ε {value.toFixed(1)}</Text>
+      <View style={styles.trackArea} onLayout={onLayout} {...panResponder.panHandlers}>
+        <View style={styles.track} pointerEvents="none" />
+        <View style={[styles.fill, { width: ratio * trackWidth }]} pointerEvents="none" />
+        <View style={[styles.thumb, { left: ratio * trackWidth - 9 }]} pointerEvents="none" />
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+  },
+  label: {
+    fontWeight: 'bold',
+    color: '#1976D2',
+    width: 48,
+  },
+  trackArea: {
+    flex: 1,
+    height: 28,
+    justifyContent: 'center',
+  },
+  track: {
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#e0e0e0',
+  },
+  fill: {
+    position: 'absolute',
+    height: 4,
+    borderRadius: 2,
+    backgroundColor: '#2196F3',
+  },
+  thumb: {
+    position: 'absolute',
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    backgroundColor: '#2196F3',
+    borderWidth: 2,
+    borderColor: 'white',
+    elevation: 2,
+  },
+});
+
+export default EpsilonSlider;
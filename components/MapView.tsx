@@ -1,9 +1,19 @@
 // MapView.tsx
+import MapboxGL from '@rnmapbox/maps';
 import React, { useState, useEffect, useCallback, useMemo } from 'react';
 import { StyleSheet, View, Text } from 'react-native';
-import MapboxGL from '@rnmapbox/maps';
-import { nodesGeoJSON } from '../utils/nodes';
+
+import { getAlgorithm } from '../utils/algorithmRegistry';
+import { AvoidZone, zonesToGeoJSON } from '../utils/avoidZones';
+import { Closures, streetKey } from '../utils/closures';
+import { featureGeometry, lineLength, orientGeometry, reverseGeometry } from '../utils/edgeGeometry';
+import { StreetRef, projectOntoLine } from '../utils/edgeSnapping';
 import { edgesGeoJSON } from '../utils/edges';
+import { RouteStep, parseStreetName } from '../utils/instructions';
+import { nodesGeoJSON } from '../utils/nodes';
+import { allowsReverse, featureDirections } from '../utils/oneWay';
+import { spatialIndex } from '../utils/spatialIndex';
+import { parseMaxspeed, parseRoadClass } from '../utils/weighting';
 
 MapboxGL.setAccessToken('pk.eyJ1Ijoia2F6a2VlIiwiYSI6ImNtYTUxajkwZzBjOWgyanF1YW5jcjRkYzIifQ.MN-J9CnKqnkhl8qxkGCL2A');
 
@@ -17,6 +27,10 @@ interface Edge {
   source: string;
   target: string;
   weight: number;
+  highway?: string;
+  maxspeed?: number;
+  name?: string;
+  geometry?: number[][];
 }
 
 interface Graph {
@@ -31,14 +45,29 @@ type MapViewProps = {
   endPoint: { lat: number; lng: number } | null;
   pathResult: {
     coordinates: number[][];
+    segments?: number[][][];
     algorithm: string;
     visitedNodes?: number[][];
+    landmarks?: number[][];
+    alternatives?: { path: number[][] }[];
+    previousPath?: number[][];
+    stateOfCharge?: number[];
+    chargingStops?: number[][];
   } | null;
-  onPointSelected: (pointType: 'start' | 'end', coordinates: { lat: number; lng: number }, edgeCoordinates?: number[][]) => void;
+  onPointSelected: (pointType: 'start' | 'end', coordinates: { lat: number; lng: number }, street?: StreetRef) => void;
   selectionMode: 'start' | 'end' | 'none';
   onTapMap: (event: any) => void;
   onGraphUpdate: (graph: Graph) => void;
   showVisitedNodes: boolean;
+  selectedAlternative?: number;
+  onAlternativeSelect?: (index: number) => void;
+  closureMode?: boolean;
+  closures?: Closures;
+  onEdgeToggle?: (u: string, v: string) => void;
+  zones?: AvoidZone[];
+  zoneDraft?: number[][] | null;
+  onZoneVertex?: (coordinate: number[]) => void;
+  focusedStep?: RouteStep;
 };
 
 const validateColor = (color: string): string => {
@@ -50,6 +79,12 @@ const validateColor = (color: string): string => {
   return '#000000';
 };
 
+const VISITED_MATCH_DISTANCE = 10; // meters; visited coordinates are node positions
+const TAP_SNAP_DISTANCE = 60; // meters from a tap to the intersection it selects
+
+// Distinct colors for k-shortest alternative routes, best route first
+const ALTERNATIVE_COLORS = ['#E65100', '#1565C0', '#2E7D32', '#6A1B9A', '#00838F', '#AD1457', '#827717', '#4E342E'];
+
 const areMapsEqual = <K, V>(map1: Map<K, V>, map2: Map<K, V>): boolean => {
   if (map1.size !== map2.size) return false;
   for (const [key, value] of map1) {
@@ -69,6 +104,15 @@ const MapView: React.FC<MapViewProps> = ({
   onTapMap,
   onGraphUpdate,
   showVisitedNodes,
+  selectedAlternative = 0,
+  onAlternativeSelect,
+  closureMode = false,
+  closures,
+  onEdgeToggle,
+  zones = [],
+  zoneDraft = null,
+  onZoneVertex,
+  focusedStep,
 }) => {
   const [camera, setCamera] = useState({
     zoomLevel: 14,
@@ -131,14 +175,21 @@ const MapView: React.FC<MapViewProps> = ({
         return;
       }
 
+      // One-way streets only get their u → v edge
+      const directions = featureDirections(edgesGeoJSON.features);
       let totalEdges = 0;
       for (const feature of edgesGeoJSON.features) {
         const props = feature.properties || {};
         const { u, v, length } = props;
-        if (u && v && length !== undefined && u !== v) {
+        const line = featureGeometry(feature);
+        if (u && v && (length !== undefined || line) && u !== v) {
           const source = u.toString();
           const target = v.toString();
-          const weight = parseFloat(length);
+          // The street's own shape decides its length, so drawn routes and distances agree
+          const geometry = line && line.length > 1 && graph.nodes.has(source)
+            ? orientGeometry(line, graph.nodes.get(source)!)
+            : undefined;
+          const weight = geometry ? lineLength(geometry) : parseFloat(length);
 
           if (isNaN(weight)) {
             console.warn(`Invalid length for edge ${u}-${v}: ${length}`);
@@ -151,13 +202,26 @@ const MapView: React.FC<MapViewProps> = ({
           }
 
           if (graph.nodes.has(source) && graph.nodes.has(target)) {
+            const highway = parseRoadClass(props.highway);
+            const maxspeed = parseMaxspeed(props.maxspeed);
+            const name = parseStreetName(props.name);
             if (!edgesMap.has(source)) edgesMap.set(source, []);
-            edgesMap.get(source)!.push({ source, target, weight });
+            edgesMap.get(source)!.push({ source, target, weight, highway, maxspeed, name, geometry });
             totalEdges++;
 
-            if (!edgesMap.has(target)) edgesMap.set(target, []);
-            edgesMap.get(target)!.push({ source: target, target: source, weight });
-            totalEdges++;
+            if (allowsReverse(props, directions)) {
+              if (!edgesMap.has(target)) edgesMap.set(target, []);
+              edgesMap.get(target)!.push({
+                source: target,
+                target: source,
+                weight,
+                highway,
+                maxspeed,
+                name,
+                geometry: geometry && reverseGeometry(geometry),
+              });
+              totalEdges++;
+            }
           } else {
             console.warn(`Edge ${u}-${v} references invalid nodes. Skipping.`);
           }
@@ -186,9 +250,31 @@ const MapView: React.FC<MapViewProps> = ({
 
   const stableGraph = useMemo(() => graph, [graph.nodes.size, graph.edges.size]);
 
+  const closedEdges = useMemo(
+    () => ({
+      type: 'FeatureCollection' as const,
+      features: closures && closures.size > 0
+        ? edgesGeoJSON.features
+        .filter((feature: any) => closures.has(streetKey(String(feature.properties?.u), String(feature.properties?.v))))
+        .map((feature: any) => ({
+          ...feature,
+          properties: {
+            ...feature.properties,
+            closed: closures.get(streetKey(String(feature.properties.u), String(feature.properties.v))) === Infinity ? 1 : 0,
+          },
+        }))
+        : [],
+    }),
+    [closures]
+  );
+
+  const zoneShapes = useMemo(() => zonesToGeoJSON(zones), [zones]);
+
   useEffect(() => {
     if (nodesFetched && edgesFetched) {
       console.log(`Graph updated: ${stableGraph.nodes.size} nodes, ${stableGraph.edges.size} edge sets`);
+      // Built once here; every later coordinate-to-node lookup reuses it
+      spatialIndex(stableGraph.nodes);
       onGraphUpdate(stableGraph);
     }
   }, [nodesFetched, edgesFetched, stableGraph, onGraphUpdate]);
@@ -212,23 +298,23 @@ const MapView: React.FC<MapViewProps> = ({
     }
   }, [startPoint, endPoint]);
 
+  // Zoom in on the maneuver of the tapped direction step
+  useEffect(() => {
+    if (focusedStep) {
+      setCamera({ zoomLevel: 18, centerCoordinate: focusedStep.coordinate });
+    }
+  }, [focusedStep]);
+
   // Map visited nodes to osmids using closest-node matching
   useEffect(() => {
     console.log('MapView received pathResult:', pathResult);
     if (pathResult?.visitedNodes && pathResult.visitedNodes.length > 0) {
       const visitedIds: string[] = [];
       const unmatchedNodes: number[][] = [];
-      pathResult.visitedNodes.forEach(([lng, lat], index) => {
-        let closestNode: { osmid: string; distance: number } | null = null;
-        for (const [osmid, node] of graph.nodes.entries()) {
-          const distance = Math.sqrt(
-            Math.pow(node.lng - lng, 2) + Math.pow(node.lat - lat, 2)
-          );
-          if (!closestNode || distance < closestNode.distance) {
-            closestNode = { osmid, distance };
-          }
-        }
-        if (closestNode && closestNode.distance < 0.0001) {
+      const index = spatialIndex(graph.nodes);
+      pathResult.visitedNodes.forEach(([lng, lat]) => {
+        const closestNode = index.nearest({ lat, lng }, VISITED_MATCH_DISTANCE);
+        if (closestNode) {
           visitedIds.push(closestNode.osmid);
         } else {
           unmatchedNodes.push([lng, lat]);
@@ -253,16 +339,17 @@ const MapView: React.FC<MapViewProps> = ({
   }, [pathResult, graph.nodes]);
 
   const getPathColor = (algorithm: string) => {
-    const color = {
-      dijkstra: '#FF9800', // Orange
-      'a-star': '#4CAF50', // Green
-      gbfs: '#FF00FF', // Magenta (replacing BFS)
-      'bellman-ford': '#00FFFF', // Cyan
-    }[algorithm] || '#2196F3'; // Default blue
+    const color = getAlgorithm(algorithm)?.color || '#2196F3'; // Default blue
     return validateColor(color);
   };
 
   const handleFeaturePress = (event: any, source: 'nodes' | 'edges') => {
+    // While drawing a zone, taps on roads are zone vertices like any other tap
+    if (zoneDraft && event?.coordinates) {
+      onZoneVertex?.([event.coordinates.longitude, event.coordinates.latitude]);
+      return;
+    }
+
     if (!event?.features?.length) {
       stableOnError(`No ${source} found at this location.`);
       return;
@@ -292,32 +379,43 @@ const MapView: React.FC<MapViewProps> = ({
         return;
       }
 
-      const edgeCoordinates = [
-        [sourceNode.lng, sourceNode.lat],
-        [targetNode.lng, targetNode.lat],
-      ];
+      if (closureMode) {
+        onEdgeToggle?.(sourceNode.osmid, targetNode.osmid);
+        return;
+      }
 
+      // The point goes exactly under the tap on the street's shape; the query splits the
+      // street there with a virtual node
+      const line = featureGeometry(feature);
+      const streetLine = line && line.length > 1
+        ? orientGeometry(line, sourceNode)
+        : [[sourceNode.lng, sourceNode.lat], [targetNode.lng, targetNode.lat]];
       const tapPoint = { lat: event.coordinates.latitude, lng: event.coordinates.longitude };
-      const sourceDistance = Math.sqrt(
-        Math.pow(sourceNode.lng - tapPoint.lng, 2) + Math.pow(sourceNode.lat - tapPoint.lat, 2)
-      );
-      const targetDistance = Math.sqrt(
-        Math.pow(targetNode.lng - tapPoint.lng, 2) + Math.pow(targetNode.lat - tapPoint.lat, 2)
-      );
-
-      const nearest = sourceDistance < targetDistance ? sourceNode : targetNode;
-      const lng = nearest.lng;
-      const lat = nearest.lat;
+      const [lng, lat] = projectOntoLine(streetLine, tapPoint).coordinate;
+      const street = { source: sourceNode.osmid, target: targetNode.osmid };
 
       if (selectionMode === 'start') {
-        onPointSelected('start', { lat, lng }, edgeCoordinates);
+        onPointSelected('start', { lat, lng }, street);
       } else if (selectionMode === 'end') {
-        onPointSelected('end', { lat, lng }, edgeCoordinates);
+        onPointSelected('end', { lat, lng }, street);
       }
     }
   };
 
   const onTapMapHandler = (event: any) => {
+    if (zoneDraft && event?.geometry?.coordinates) {
+      onZoneVertex?.(event.geometry.coordinates);
+      return;
+    }
+    // A tap near the road network picks the closest intersection
+    if (selectionMode !== 'none' && event?.geometry?.coordinates) {
+      const [lng, lat] = event.geometry.coordinates;
+      const node = spatialIndex(graph.nodes).nearest({ lat, lng }, TAP_SNAP_DISTANCE);
+      if (node) {
+        onPointSelected(selectionMode, { lat: node.lat, lng: node.lng });
+        return;
+      }
+    }
     onTapMap(event);
   };
 
@@ -399,9 +497,9 @@ const MapView: React.FC<MapViewProps> = ({
       id="visitedNodes"
       shape={{
         type: 'FeatureCollection',
-        features: pathResult.visitedNodes.map(([lng, lat], index) => ({
+        features: pathResult.visitedNodes.map(([lng, lat, side], index) => ({
           type: 'Feature',
-          properties: { id: `visited-${index}` },
+          properties: { id: `visited-${index}`, side: side ?? 0 },
           geometry: { type: 'Point', coordinates: [lng, lat] },
         })),
       }}
@@ -411,7 +509,8 @@ const MapView: React.FC<MapViewProps> = ({
       id="visitedNodes-layer"
       style={{
         circleRadius: 5,
-        circleColor: '#800080', // Purple for visited nodes
+        // Purple for visited nodes; the backward frontier of bidirectional searches is orange
+        circleColor: ['match', ['get', 'side'], 1, '#FF6F00', '#800080'],
         circleStrokeWidth: 1,
         circleStrokeColor: '#fff',
         visibility: 'visible',
@@ -421,6 +520,69 @@ const MapView: React.FC<MapViewProps> = ({
       </MapboxGL.ShapeSource>
     )}
 
+    {/* Avoid zones in red, penalty zones in orange; disabled zones are faded */}
+    {zoneShapes.features.length > 0 && (
+      <MapboxGL.ShapeSource id="zonesSource" shape={zoneShapes}>
+      <MapboxGL.FillLayer
+      id="zonesFillLayer"
+      style={{
+        fillColor: ['case', ['==', ['get', 'avoid'], 1], validateColor('#D50000'), validateColor('#FF9100')],
+        fillOpacity: ['case', ['==', ['get', 'enabled'], 1], 0.3, 0.08],
+      }}
+      belowLayerID="nodes-layer"
+      />
+      <MapboxGL.LineLayer
+      id="zonesOutlineLayer"
+      style={{
+        lineColor: ['case', ['==', ['get', 'avoid'], 1], validateColor('#D50000'), validateColor('#FF9100')],
+        lineWidth: 2,
+        lineOpacity: ['case', ['==', ['get', 'enabled'], 1], 0.9, 0.3],
+      }}
+      belowLayerID="nodes-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {/* The zone being drawn: its vertices and the outline closed back to the first one */}
+    {zoneDraft && zoneDraft.length > 0 && (
+      <MapboxGL.ShapeSource
+      id="zoneDraftSource"
+      shape={{
+        type: 'FeatureCollection',
+        features: [
+          ...zoneDraft.map((coordinate, index) => ({
+            type: 'Feature' as const,
+            properties: { id: `zone-vertex-${index}` },
+            geometry: { type: 'Point' as const, coordinates: coordinate },
+          })),
+          ...(zoneDraft.length > 1
+            ? [{
+              type: 'Feature' as const,
+              properties: {},
+              geometry: {
+                type: 'LineString' as const,
+                coordinates: zoneDraft.length > 2 ? [...zoneDraft, zoneDraft[0]] : zoneDraft,
+              },
+            }]
+            : []),
+        ],
+      }}
+      >
+      <MapboxGL.LineLayer
+      id="zoneDraftLine"
+      style={{ lineColor: validateColor('#D50000'), lineWidth: 2, lineDasharray: [2, 1] }}
+      filter={['==', ['geometry-type'], 'LineString']}
+      aboveLayerID="edges-layer"
+      />
+      <MapboxGL.CircleLayer
+      id="zoneDraftVertices"
+      style={{ circleRadius: 5, circleColor: validateColor('#D50000'), circleStrokeWidth: 2, circleStrokeColor: '#fff' }}
+      filter={['==', ['geometry-type'], 'Point']}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
     <MapboxGL.ShapeSource
     id="edges"
     shape={edgesGeoJSON}
@@ -430,7 +592,7 @@ const MapView: React.FC<MapViewProps> = ({
     id="edges-layer"
     style={{
       lineColor: validateColor(selectionMode === 'none' ? '#1976D2' : selectionMode === 'start' ? '#4CAF50' : '#F44336'),
-          lineWidth: selectionMode === 'none' ? 2 : 4,
+          lineWidth: selectionMode === 'none' && !closureMode ? 2 : 4,
           visibility: 'visible',
     }}
     minZoomLevel={10}
@@ -438,7 +600,144 @@ const MapView: React.FC<MapViewProps> = ({
     />
     </MapboxGL.ShapeSource>
 
-    {pathResult && pathResult.coordinates && pathResult.coordinates.length > 0 && (
+    {/* Closed streets in red, penalized ones in orange */}
+    {closedEdges.features.length > 0 && (
+      <MapboxGL.ShapeSource id="closuresSource" shape={closedEdges}>
+      <MapboxGL.LineLayer
+      id="closuresLayer"
+      style={{
+        lineColor: ['case', ['==', ['get', 'closed'], 1], validateColor('#D50000'), validateColor('#FF9100')],
+        lineWidth: 6,
+        lineDasharray: [1, 1],
+        lineCap: 'butt',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {/* The selected algorithm's path before the last closure edit */}
+    {pathResult?.previousPath && pathResult.previousPath.length > 1 && (
+      <MapboxGL.ShapeSource
+      id="previousPathSource"
+      shape={{
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'LineString', coordinates: pathResult.previousPath },
+      }}
+      >
+      <MapboxGL.LineLayer
+      id="previousPathLayer"
+      style={{
+        lineColor: validateColor('#757575'),
+        lineWidth: 4,
+        lineOpacity: 0.7,
+        lineDasharray: [2, 2],
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {/* Alternative routes; the selected one is drawn on top and wider */}
+    {pathResult?.alternatives && pathResult.alternatives.length > 1 && (
+      <MapboxGL.ShapeSource
+      id="alternativesSource"
+      shape={{
+        type: 'FeatureCollection',
+        features: pathResult.alternatives
+        .map((route, index) => ({
+          type: 'Feature' as const,
+          properties: { index, selected: index === selectedAlternative ? 1 : 0 },
+          geometry: { type: 'LineString' as const, coordinates: route.path },
+        }))
+        .sort((a, b) => a.properties.selected - b.properties.selected),
+      }}
+      onPress={(event) => {
+        const index = event?.features?.[0]?.properties?.index;
+        if (typeof index === 'number' && onAlternativeSelect) onAlternativeSelect(index);
+      }}
+      hitbox={{ width: 20, height: 20 }}
+      >
+      <MapboxGL.LineLayer
+      id="alternativesLayer"
+      style={{
+        lineColor: [
+          'match',
+          ['get', 'index'],
+          ...ALTERNATIVE_COLORS.flatMap((color, index) => [index, validateColor(color)]),
+          validateColor('#2196F3'),
+        ],
+        lineWidth: ['case', ['==', ['get', 'selected'], 1], 6, 3],
+        lineOpacity: ['case', ['==', ['get', 'selected'], 1], 1.0, 0.6],
+        lineCap: 'round',
+        lineJoin: 'round',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {/* Battery routes: each segment colored by the charge left at its end */}
+    {pathResult?.stateOfCharge && pathResult.segments && pathResult.segments.length > 0 && (
+      <MapboxGL.ShapeSource
+      id="chargeSource"
+      shape={{
+        type: 'FeatureCollection',
+        features: pathResult.segments.map((segment, index) => ({
+          type: 'Feature' as const,
+          properties: { charge: pathResult.stateOfCharge![index + 1] },
+          geometry: { type: 'LineString' as const, coordinates: segment },
+        })),
+      }}
+      >
+      <MapboxGL.LineLayer
+      id="chargeLayer"
+      style={{
+        lineColor: [
+          'interpolate',
+          ['linear'],
+          ['get', 'charge'],
+          10, validateColor('#D50000'),
+          40, validateColor('#FFAB00'),
+          100, validateColor('#00C853'),
+        ],
+        lineWidth: 5,
+        lineCap: 'round',
+        lineJoin: 'round',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {pathResult?.chargingStops && pathResult.chargingStops.length > 0 && (
+      <MapboxGL.ShapeSource
+      id="chargingStops"
+      shape={{
+        type: 'FeatureCollection',
+        features: pathResult.chargingStops.map(([lng, lat], index) => ({
+          type: 'Feature',
+          properties: { id: `charging-stop-${index}` },
+          geometry: { type: 'Point', coordinates: [lng, lat] },
+        })),
+      }}
+      >
+      <MapboxGL.CircleLayer
+      id="charging-stops-layer"
+      style={{
+        circleRadius: 8,
+        circleColor: '#FFFFFF',
+        circleStrokeWidth: 3,
+        circleStrokeColor: '#00C853',
+        visibility: 'visible',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {pathResult && pathResult.coordinates && pathResult.coordinates.length > 0 && !pathResult.stateOfCharge && !(pathResult.alternatives && pathResult.alternatives.length > 1) && (
       <MapboxGL.ShapeSource
       id="pathSource"
       shape={{
@@ -466,6 +765,55 @@ const MapView: React.FC<MapViewProps> = ({
       </MapboxGL.ShapeSource>
     )}
 
+    {focusedStep && (
+      <MapboxGL.ShapeSource
+      id="focusedStep"
+      shape={{
+        type: 'Feature',
+        properties: {},
+        geometry: { type: 'Point', coordinates: focusedStep.coordinate },
+      }}
+      >
+      <MapboxGL.CircleLayer
+      id="focused-step-layer"
+      style={{
+        circleRadius: 10,
+        circleColor: 'rgba(33, 150, 243, 0.3)',
+        circleStrokeWidth: 3,
+        circleStrokeColor: '#2196F3',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
+    {/* Landmarks used by the ALT heuristic */}
+    {pathResult?.landmarks && pathResult.landmarks.length > 0 && (
+      <MapboxGL.ShapeSource
+      id="landmarks"
+      shape={{
+        type: 'FeatureCollection',
+        features: pathResult.landmarks.map(([lng, lat], index) => ({
+          type: 'Feature',
+          properties: { id: `landmark-${index}` },
+          geometry: { type: 'Point', coordinates: [lng, lat] },
+        })),
+      }}
+      >
+      <MapboxGL.CircleLayer
+      id="landmarks-layer"
+      style={{
+        circleRadius: 8,
+        circleColor: '#FFD600', // Yellow for landmarks
+        circleStrokeWidth: 2,
+        circleStrokeColor: '#000',
+        visibility: 'visible',
+      }}
+      aboveLayerID="edges-layer"
+      />
+      </MapboxGL.ShapeSource>
+    )}
+
     {startPoint && (
       <MapboxGL.PointAnnotation id="startPoint" coordinate={[startPoint.lng, startPoint.lat]} title="Start">
       <View style={[styles.mapMarker, styles.startMarker]}>
@@ -1,9 +1,71 @@
 // PathfindingComparison.tsx
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { StyleSheet, View, Alert } from 'react-native';
-import MapView from './MapView';
+import { StyleSheet, View, Alert, Share } from 'react-native';
+
+import AlgorithmInfoModal from './AlgorithmInfoModal';
 import ControlPanel from './ControlPanel';
-import { dijkstraPathfinding, gbfsPathfinding, bellmanFordPathfinding, algorithm } from '../utils/algorithms';
+import MapView from './MapView';
+import ZoneImportModal from './ZoneImportModal';
+import {
+  AlgorithmDefinition,
+  AlgorithmResult,
+  algorithms,
+  defaultComparedAlgorithms,
+  runOrder,
+} from '../utils/algorithmRegistry';
+import { dijkstraPathfinding } from '../utils/algorithms';
+import { AllPairsMatrix, matrixToCSV, matrixToJSON } from '../utils/allPairs';
+import { LandmarkStrategy } from '../utils/alt';
+import { AnytimeSolution, DEFAULT_EPSILON } from '../utils/araStar';
+import {
+  AvoidZone,
+  zonePenalties,
+  createZone,
+  applyZones,
+  zonesSignature,
+  loadZones,
+  saveZones,
+} from '../utils/avoidZones';
+import { ChargingStop, DEFAULT_STARTING_CHARGE } from '../utils/batteryRouting';
+import {
+  Closures,
+  closureTools,
+  toggleClosure,
+  closuresSignature,
+  applyClosures,
+  streetKey,
+} from '../utils/closures';
+import { pathGeometry, routeGeometry, stitchGeometry } from '../utils/edgeGeometry';
+import {
+  EdgeAnchor,
+  StreetRef,
+  VIRTUAL_START,
+  VIRTUAL_END,
+  withVirtualNodes,
+} from '../utils/edgeSnapping';
+import { RouteStep, buildInstructions } from '../utils/instructions';
+import { AlternativeRoute, DEFAULT_K } from '../utils/kShortestPaths';
+import { LpaUpdateStats } from '../utils/lpaStar';
+import { DEFAULT_NODE_BUDGET } from '../utils/memoryBounded';
+import { ignoreOneWay } from '../utils/oneWay';
+import { QueueKind, DEFAULT_QUEUE } from '../utils/priorityQueues';
+import { QueueBenchmark, benchmarkQueues } from '../utils/queueBenchmark';
+import {
+  JobScheduler,
+  JobCancelledError,
+  JobStatus,
+  jobStatus,
+  DEFAULT_JOB_TIMEOUT,
+} from '../utils/scheduler';
+import { countTurns, TurnCounts, defaultTurnOptions, DELAY_SPEED } from '../utils/turnRouting';
+import {
+  VehicleProfileId,
+  DEFAULT_PROFILE,
+  getProfile,
+  profileWeighting,
+  filterGraph,
+} from '../utils/vehicleProfiles';
+import { WeightMetric, applyWeighting, defaultWeighting, measurePath } from '../utils/weighting';
 
 interface Node {
   osmid: string;
@@ -24,6 +86,8 @@ interface Graph {
 
 interface PathResult {
   coordinates: number[][];
+  segments?: number[][][]; // street shape of each path hop
+  steps?: RouteStep[];
   algorithm: string;
   time: string;
   travelTime?: string;
@@ -32,32 +96,157 @@ interface PathResult {
   visitedNodes: number[][];
   edgesExplored?: number;
   pathNodeCount?: number;
+  landmarks?: number[][];
+  alternatives?: AlternativeRoute[];
+  previousPath?: number[][];
+  stateOfCharge?: number[];
+  chargingStops?: number[][];
+  profile: VehicleProfileId;
+}
+
+interface JobProgress {
+  status: JobStatus;
+  detail?: string;
 }
 
 interface ComparisonResult {
   time: string;
+  profile: string;
+  capacity: number;
+  closureChange?: string;
   distance: string;
   nodes: number;
   edgesExplored: number;
   pathNodeCount: number;
+  hops: number;
+  turns: string;
+  turnDelay?: string;
+  turnRestrictions?: string;
+  shortestHops?: number;
+  extraDistance?: string;
+  oneWayDetour?: string;
+  replanNodes?: number;
+  fullSearchNodes?: number;
+  reconsistentVertices?: number;
+  preprocessingTime?: string;
+  shortcutCount?: number;
+  speedup?: string;
+  landmarkStrategy?: string;
+  nodesSavedVsAStar?: number;
+  matrixSize?: number;
+  peakStoredNodes?: number;
+  chargeTime?: string;
+  chargingStops?: string;
+  finalCharge?: string;
+  energyUsed?: string;
+  aStarStoredNodes?: number;
+  alternatives?: { distance: string; overlap: string }[];
+  epsilon?: string;
+  bound?: string;
+  solutions?: { time: number; distance: number; bound: number }[];
+  referencePoints?: { label: string; time: number; distance: number }[];
 }
 
+const formatTurns = (turns: TurnCounts): string =>
+  `${turns.total} (${turns.left}L ${turns.right}R ${turns.sharp}S ${turns.uTurn}U)`;
+
+const samePath = (a: number[][], b: number[][]): boolean =>
+  a.length === b.length && a.every(([lng, lat], i) => lng === b[i][0] && lat === b[i][1]);
+
+// Signed percentage by which `distance` exceeds `reference`
+const formatExtra = (distance: number, reference: number): string =>
+  `${distance >= reference ? '+' : ''}${(((distance - reference) / reference) * 100).toFixed(0)}%`;
+
+// The network every algorithm searches: filtered and weighted for the vehicle, with
+// one-way rules, closures and avoid zones applied
+const prepareNetwork = (
+  graph: Graph,
+  profileId: VehicleProfileId,
+  weightMetric: WeightMetric,
+  oneWayRules: boolean,
+  closures: Closures,
+  zones: AvoidZone[]
+) => {
+  const profile = getProfile(profileId);
+  const weighting = profileWeighting(profile, weightMetric);
+  const network = filterGraph(graph, profile);
+  const directed = oneWayRules && profile.respectsOneWay;
+  const weightedGraph = applyWeighting(directed ? network : ignoreOneWay(network), weighting);
+  const routingGraph = applyZones(applyClosures(weightedGraph, closures), zones);
+  return { profile, weighting, network, directed, weightedGraph, routingGraph };
+};
+
+// The query's end points with the streets they were picked on, for virtual nodes
+const queryAnchors = (
+  start: { lat: number; lng: number },
+  startStreet: StreetRef | null,
+  end: { lat: number; lng: number },
+  endStreet: StreetRef | null
+): EdgeAnchor[] => [
+  { id: VIRTUAL_START, point: start, street: startStreet },
+  { id: VIRTUAL_END, point: end, street: endStreet },
+];
+
+const streetLabel = (street: StreetRef | null): string =>
+  street ? streetKey(street.source, street.target) : '';
+
 const PathfindingComparison: React.FC = () => {
   const [mapLoaded, setMapLoaded] = useState(false);
   const [graph, setGraph] = useState<Graph>({ nodes: new Map(), edges: new Map() });
   const [startPoint, setStartPoint] = useState<{ lat: number; lng: number } | null>(null);
   const [endPoint, setEndPoint] = useState<{ lat: number; lng: number } | null>(null);
-  const [startEdge, setStartEdge] = useState<number[][] | null>(null);
-  const [endEdge, setEndEdge] = useState<number[][] | null>(null);
+  // Streets the points were picked on; queries start from virtual nodes splitting them
+  const [startEdge, setStartEdge] = useState<StreetRef | null>(null);
+  const [endEdge, setEndEdge] = useState<StreetRef | null>(null);
   const [pathResult, setPathResult] = useState<PathResult | null>(null);
-  const [selectedAlgorithm, setSelectedAlgorithm] = useState<algorithm | null>(null);
+  const [selectedAlgorithm, setSelectedAlgorithm] = useState<AlgorithmDefinition | null>(null);
+  const [infoAlgorithm, setInfoAlgorithm] = useState<AlgorithmDefinition | null>(null);
+  // Algorithms compared with the selected one, which always runs
+  const [comparedAlgorithms, setComparedAlgorithms] = useState<string[]>(defaultComparedAlgorithms);
   const [selectionMode, setSelectionMode] = useState<'start' | 'end' | 'none'>('none');
   const [errorMsg, setErrorMsg] = useState<string | null>(null);
   const [isComputing, setIsComputing] = useState(false);
-  const [comparisonResults, setComparisonResults] = useState<Record<string, ComparisonResult> | null>(null);
+  const [comparisonResults, setComparisonResults] = useState<Record<
+    string,
+    ComparisonResult
+  > | null>(null);
   const [showVisitedNodes, setShowVisitedNodes] = useState(false);
+  const [landmarkStrategy, setLandmarkStrategy] = useState<LandmarkStrategy>('farthest');
+  const [k, setK] = useState(DEFAULT_K);
+  const [epsilon, setEpsilon] = useState(DEFAULT_EPSILON);
+  const [nodeBudget, setNodeBudget] = useState(DEFAULT_NODE_BUDGET);
+  const [startingCharge, setStartingCharge] = useState(DEFAULT_STARTING_CHARGE);
+  const [closures, setClosures] = useState<Closures>(new Map());
+  const [closureMode, setClosureMode] = useState(false);
+  const [closurePenalty, setClosurePenalty] = useState(closureTools[0].penalty);
+  const [zones, setZones] = useState<AvoidZone[]>([]);
+  const [zonesEnabled, setZonesEnabled] = useState(true);
+  const [zoneDraft, setZoneDraft] = useState<number[][] | null>(null);
+  const [zonePenalty, setZonePenalty] = useState(zonePenalties[0].penalty);
+  const [zoneImportVisible, setZoneImportVisible] = useState(false);
+  const [turnAware, setTurnAware] = useState(false);
+  const [banUTurns, setBanUTurns] = useState(defaultTurnOptions.banUTurns);
+  const [oneWayRules, setOneWayRules] = useState(true);
+  const [weightMetric, setWeightMetric] = useState<WeightMetric>(defaultWeighting.metric);
+  const [profileId, setProfileId] = useState<VehicleProfileId>(DEFAULT_PROFILE);
+  const [progress, setProgress] = useState<{ label: string; value: number } | null>(null);
+  const [selectedAlternative, setSelectedAlternative] = useState(0);
+  const [selectedStep, setSelectedStep] = useState<number | null>(null);
+  const [jobTimeout, setJobTimeout] = useState(DEFAULT_JOB_TIMEOUT);
+  const [jobs, setJobs] = useState<Record<string, JobProgress> | null>(null);
+  const [queue, setQueue] = useState<QueueKind>(DEFAULT_QUEUE);
+  const [queueBenchmark, setQueueBenchmark] = useState<QueueBenchmark | null>(null);
 
   const lastPathfindingInputs = useRef<string | null>(null);
+  const lastRun = useRef<{
+    baseKey: string;
+    closureKey: string;
+    routes: Record<string, { path: number[][]; cost: number }>;
+  } | null>(null);
+  const closureRerun = useRef(false);
+  const zonesLoaded = useRef(false);
+  const activeScheduler = useRef<JobScheduler | null>(null);
+  const allPairsMatrices = useRef<Record<string, AllPairsMatrix>>({});
 
   const onMapLoaded = useCallback(() => {
     setMapLoaded(true);
@@ -72,13 +261,13 @@ const PathfindingComparison: React.FC = () => {
   }, []);
 
   const onPointSelected = useCallback(
-    (pointType: 'start' | 'end', coordinates: { lat: number; lng: number }, edgeCoordinates?: number[][]) => {
+    (pointType: 'start' | 'end', coordinates: { lat: number; lng: number }, street?: StreetRef) => {
       if (pointType === 'start') {
         setStartPoint(coordinates);
-        setStartEdge(edgeCoordinates || null);
+        setStartEdge(street || null);
       } else {
         setEndPoint(coordinates);
-        setEndEdge(edgeCoordinates || null);
+        setEndEdge(street || null);
       }
       setSelectionMode('none');
     },
@@ -86,10 +275,14 @@ const PathfindingComparison: React.FC = () => {
   );
 
   const onSelectStartPoint = useCallback(() => {
+    setClosureMode(false);
+    setZoneDraft(null);
     setSelectionMode(selectionMode === 'start' ? 'none' : 'start');
   }, [selectionMode]);
 
   const onSelectEndPoint = useCallback(() => {
+    setClosureMode(false);
+    setZoneDraft(null);
     setSelectionMode(selectionMode === 'end' ? 'none' : 'end');
   }, [selectionMode]);
 
@@ -103,6 +296,8 @@ const PathfindingComparison: React.FC = () => {
     setSelectionMode('none');
     setErrorMsg(null);
     setShowVisitedNodes(false);
+    setJobs(null);
+    setQueueBenchmark(null);
     lastPathfindingInputs.current = null;
   }, []);
 
@@ -118,11 +313,104 @@ const PathfindingComparison: React.FC = () => {
     lastPathfindingInputs.current = null;
   }, [startPoint, endPoint, startEdge, endEdge]);
 
-  const onTapMap = useCallback((event: any) => {
-    if (selectionMode === 'none') {
-      setErrorMsg('Tap "Set Start" or "Set End" to select a point.');
+  // Tapping a street in closure mode toggles it; a query already on screen reruns
+  const onEdgeToggle = useCallback(
+    (u: string, v: string) => {
+      setClosures((previous) => toggleClosure(previous, u, v, closurePenalty));
+      closureRerun.current = lastPathfindingInputs.current !== null;
+    },
+    [closurePenalty]
+  );
+
+  const onClosureModeChange = useCallback((value: boolean) => {
+    setClosureMode(value);
+    if (value) {
+      setSelectionMode('none');
+      setZoneDraft(null);
     }
-  }, [selectionMode]);
+  }, []);
+
+  const onClearClosures = useCallback(() => {
+    setClosures(new Map());
+    closureRerun.current = lastPathfindingInputs.current !== null;
+  }, []);
+
+  const onTapMap = useCallback(
+    (event: any) => {
+      if (selectionMode === 'none' && !closureMode && !zoneDraft) {
+        setErrorMsg('Tap "Set Start" or "Set End" to select a point.');
+      }
+    },
+    [selectionMode, closureMode, zoneDraft]
+  );
+
+  // Zones are saved on every change, but only after the stored ones have been read
+  useEffect(() => {
+    loadZones()
+      .then((stored) => setZones((current) => [...stored, ...current]))
+      .catch((error) => console.warn('Could not load avoid zones:', error))
+      .finally(() => {
+        zonesLoaded.current = true;
+      });
+  }, []);
+
+  useEffect(() => {
+    if (!zonesLoaded.current) return;
+    saveZones(zones).catch((error) => console.warn('Could not save avoid zones:', error));
+  }, [zones]);
+
+  // Drawing a zone: each map tap adds a vertex until the zone is finished or cancelled
+  const onZoneDrawingChange = useCallback((value: boolean) => {
+    setZoneDraft(value ? [] : null);
+    if (value) {
+      setSelectionMode('none');
+      setClosureMode(false);
+    }
+  }, []);
+
+  const onZoneVertex = useCallback((coordinate: number[]) => {
+    setZoneDraft((draft) => (draft ? [...draft, coordinate] : draft));
+  }, []);
+
+  const onFinishZone = useCallback(() => {
+    if (!zoneDraft || zoneDraft.length < 3) {
+      setErrorMsg('A zone needs at least three points.');
+      return;
+    }
+    const ring = zoneDraft;
+    setZones((current) => [
+      ...current,
+      createZone(ring, zonePenalty, `Zone ${current.length + 1}`),
+    ]);
+    setZoneDraft(null);
+  }, [zoneDraft, zonePenalty]);
+
+  const onImportZones = useCallback((imported: AvoidZone[]) => {
+    setZones((current) => [...current, ...imported]);
+    setZoneImportVisible(false);
+  }, []);
+
+  const onZoneToggle = useCallback((id: string) => {
+    setZones((current) =>
+      current.map((zone) => (zone.id === id ? { ...zone, enabled: !zone.enabled } : zone))
+    );
+  }, []);
+
+  const onZoneDelete = useCallback(
+    (id: string) => {
+      const zone = zones.find((candidate) => candidate.id === id);
+      if (!zone) return;
+      Alert.alert('Delete zone', `Delete ${zone.name}?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => setZones((current) => current.filter((z) => z.id !== id)),
+        },
+      ]);
+    },
+    [zones]
+  );
 
   const fetchDirections = useCallback(async () => {
     if (!startPoint || !endPoint) {
@@ -133,105 +421,474 @@ const PathfindingComparison: React.FC = () => {
       setErrorMsg('Please select an algorithm.');
       return;
     }
-    if (!graph || !graph.nodes || !graph.edges || graph.nodes.size === 0 || graph.edges.size === 0) {
+    if (
+      !graph ||
+      !graph.nodes ||
+      !graph.edges ||
+      graph.nodes.size === 0 ||
+      graph.edges.size === 0
+    ) {
       setErrorMsg('Graph data not loaded.');
       return;
     }
 
-    const inputKey = `${startPoint.lat},${startPoint.lng}-${endPoint.lat},${endPoint.lng}-${selectedAlgorithm.id}`;
-    if (lastPathfindingInputs.current === inputKey) {
-      console.log('Skipping redundant pathfinding call for:', inputKey);
-      return;
-    }
+    const baseKey = `${startPoint.lat},${startPoint.lng}-${endPoint.lat},${endPoint.lng}-${streetLabel(startEdge)}-${streetLabel(endEdge)}-${selectedAlgorithm.id}-${landmarkStrategy}-${k}-${epsilon}-${nodeBudget}-${turnAware}-${banUTurns}-${oneWayRules}-${weightMetric}-${profileId}-${startingCharge}-${queue}-${jobTimeout}-${comparedAlgorithms.join(',')}`;
+    const closureKey = closuresSignature(closures);
+    const activeZones = zonesEnabled ? zones : [];
+    const inputKey = `${baseKey}-${closureKey}-${zonesSignature(activeZones)}`;
+    if (lastPathfindingInputs.current === inputKey) return;
     lastPathfindingInputs.current = inputKey;
 
     setIsComputing(true);
     setErrorMsg(null);
     setShowVisitedNodes(false);
+    setComparisonResults(null);
+
+    // Every search runs as a scheduled job, so rendering continues and the run can be cancelled
+    const scheduler = new JobScheduler(jobTimeout);
+    activeScheduler.current = scheduler;
+    const updateJob = (id: string, job: JobProgress) =>
+      setJobs((current) => ({ ...current, [id]: job }));
 
     try {
-      // Compute pathfinding for all algorithms
-      const algorithmsToRun = [
-        { id: 'dijkstra', func: () => dijkstraPathfinding(graph, startPoint, endPoint, 'dijkstra') },
-                                      { id: 'a-star', func: () => dijkstraPathfinding(graph, startPoint, endPoint, 'a-star') },
-                                      { id: 'gbfs', func: () => gbfsPathfinding(graph, startPoint, endPoint) },
-                                      { id: 'bellman-ford', func: () => bellmanFordPathfinding(graph, startPoint, endPoint) },
-      ];
-
-      const results: Record<string, { result: any; travelTime: string }> = {};
-
-      for (const algo of algorithmsToRun) {
-        const result = await algo.func();
-        const totalDistance = result.distance * 1000; // Convert km to meters
-        const speed = 4.17; // meters per second (15 km/h)
-  const travelTime = totalDistance / speed; // Estimated travel time in seconds
-
-  results[algo.id] = {
-    result,
-    travelTime: `${travelTime.toFixed(2)}s`,
-  };
+      // Compute pathfinding for the selected algorithm and the ones compared with it
+      // The vehicle profile filters and weights the network before any algorithm sees it
+      const { profile, weighting, network, directed, weightedGraph, routingGraph } = prepareNetwork(
+        graph,
+        profileId,
+        weightMetric,
+        oneWayRules,
+        closures,
+        activeZones
+      );
+      const turnOptions = {
+        ...defaultTurnOptions,
+        banUTurns,
+        speed: weightMetric === 'time' ? routingGraph.referenceSpeed : DELAY_SPEED,
+      };
+      const options = {
+        landmarkStrategy,
+        k,
+        epsilon,
+        nodeBudget,
+        startingCharge,
+        turnAware,
+        turnOptions,
+        queue,
+      };
+      const algorithmsToRun = runOrder([selectedAlgorithm.id, ...comparedAlgorithms]);
+      // Points picked on a street start from virtual nodes in a copy of the graph. An
+      // algorithm whose precomputed data only covers the graph itself starts at the nearest
+      // intersections instead, and then so does every other one, so all of them answer
+      // the same query and their distances and node counts stay comparable.
+      const onStreets = !algorithmsToRun.some((algo) => algo.snapsToNodes);
+      const anchors = onStreets
+        ? queryAnchors(startPoint, startEdge, endPoint, endEdge)
+        : queryAnchors(startPoint, null, endPoint, null);
+      const snapped = withVirtualNodes(routingGraph, anchors);
+
+      const results: Record<
+        string,
+        { result: AlgorithmResult & { cost: number }; travelTime: string }
+      > = {};
+      setJobs(
+        Object.fromEntries(
+          algorithmsToRun.map((algo) => [algo.id, { status: 'queued' as JobStatus }])
+        )
+      );
+
+      // When only the closures changed, compare every route with the run before them
+      const previousRun =
+        lastRun.current?.baseKey === baseKey && lastRun.current.closureKey !== closureKey
+          ? lastRun.current.routes
+          : null;
+
+      // Set by the one-way detour reference once every route is in
+      let unrestrictedDistance: number | undefined;
+
+      // A comparison row with actual metrics. Rows are shown as each job finishes, and
+      // built again at the end for the figures that compare with other algorithms.
+      const comparisonEntry = (
+        id: string,
+        result: AlgorithmResult & { cost: number }
+      ): ComparisonResult => {
+        const dijkstraResult = results['dijkstra']?.result;
+        const aStarResult = results['a-star']?.result;
+        return {
+          time: `${(result.time / 1000).toFixed(2)}s`,
+          profile: profile.name,
+          capacity: profile.capacity,
+          closureChange: previousRun?.[id]
+            ? `${samePath(previousRun[id].path, result.path) ? 'Same path' : 'Rerouted'}, cost ${formatExtra(result.cost, previousRun[id].cost)}`
+            : undefined,
+          distance: `${result.distance.toFixed(1)}km`,
+          nodes: result.nodesVisited,
+          edgesExplored: result.edgesExplored,
+          pathNodeCount: result.pathNodeCount,
+          hops: result.pathNodeCount - 1,
+          turns: formatTurns(result.turns ?? countTurns(result.path)),
+          turnDelay: result.turnPenalty !== undefined ? `${result.turnPenalty}s` : undefined,
+          turnRestrictions:
+            result.restrictionsApplied !== undefined
+              ? `${result.restrictionsApplied} of ${turnOptions.restrictions.length} applied`
+              : undefined,
+          // Unweighted searches are compared against the weighted shortest path
+          shortestHops:
+            result.hopCount !== undefined && dijkstraResult
+              ? dijkstraResult.pathNodeCount - 1
+              : undefined,
+          extraDistance:
+            result.hopCount !== undefined && dijkstraResult
+              ? formatExtra(result.distance, dijkstraResult.distance)
+              : undefined,
+          oneWayDetour:
+            unrestrictedDistance !== undefined
+              ? formatExtra(result.distance, unrestrictedDistance)
+              : undefined,
+          replanNodes: result.replan?.nodesVisited,
+          fullSearchNodes: result.replan?.fullSearchNodesVisited,
+          reconsistentVertices: result.updates?.reduce(
+            (total: number, update: LpaUpdateStats) => total + update.reconsistentVertices,
+            0
+          ),
+          preprocessingTime:
+            result.preprocessingTime !== undefined
+              ? `${(result.preprocessingTime / 1000).toFixed(2)}s`
+              : undefined,
+          shortcutCount: result.shortcutCount,
+          // Query speedup over plain Dijkstra, for algorithms that preprocess the graph
+          speedup:
+            result.preprocessingTime !== undefined && result.time > 0 && dijkstraResult
+              ? `${(dijkstraResult.time / result.time).toFixed(1)}x`
+              : undefined,
+          landmarkStrategy: result.landmarkStrategy,
+          nodesSavedVsAStar:
+            result.landmarkStrategy !== undefined && aStarResult
+              ? aStarResult.nodesVisited - result.nodesVisited
+              : undefined,
+          matrixSize: result.matrixSize,
+          peakStoredNodes: result.peakStoredNodes,
+          chargeTime:
+            result.chargeTime !== undefined ? `${result.chargeTime.toFixed(0)}s` : undefined,
+          chargingStops: result.chargingStops
+            ?.map(
+              (stop: ChargingStop) => `${stop.name} ${stop.from.toFixed(0)}→${stop.to.toFixed(0)}%`
+            )
+            .join(', '),
+          finalCharge: result.stateOfCharge
+            ? `${result.stateOfCharge[result.stateOfCharge.length - 1].toFixed(0)}%`
+            : undefined,
+          energyUsed:
+            result.energyUsed !== undefined
+              ? `${(result.energyUsed / 1000).toFixed(2)} kWh`
+              : undefined,
+          // A* (dijkstraPathfinding) initialises its maps for every node in the graph
+          aStarStoredNodes: result.peakStoredNodes !== undefined ? graph.nodes.size : undefined,
+          alternatives: result.alternatives?.map((route: AlternativeRoute) => ({
+            distance: `${route.distance.toFixed(2)}km`,
+            overlap: `${(route.overlap * 100).toFixed(0)}%`,
+          })),
+          epsilon: result.epsilon !== undefined ? result.epsilon.toFixed(1) : undefined,
+          bound: result.bound !== undefined ? `${result.bound.toFixed(3)}x` : undefined,
+          solutions: result.solutions?.map((solution: AnytimeSolution) => ({
+            time: solution.time,
+            distance: solution.distance,
+            bound: solution.bound,
+          })),
+          // Single-shot searches plotted next to the anytime curve: fast but unbounded vs. optimal
+          referencePoints: result.solutions
+            ? ['gbfs', 'a-star']
+                .filter((refId) => results[refId])
+                .map((refId) => ({
+                  label: refId === 'gbfs' ? 'GBFS' : 'A*',
+                  time: results[refId].result.time,
+                  distance: results[refId].result.distance,
+                }))
+            : undefined,
+        };
+      };
+
+      for (const [index, algo] of algorithmsToRun.entries()) {
+        updateJob(algo.id, { status: 'running' });
+        setProgress({
+          label: `${algo.name} (${index + 1}/${algorithmsToRun.length})`,
+          value: index / algorithmsToRun.length,
+        });
+        const context = {
+          graph: snapped.graph,
+          baseGraph: weightedGraph,
+          start: snapped.points[0],
+          end: snapped.points[1],
+          options,
+          results,
+          onProgress: (value: number) => setProgress({ label: algo.name, value }),
+        };
+        let result: AlgorithmResult;
+        try {
+          result = await scheduler.run(() => algo.run(context));
+        } catch (error: any) {
+          const status = jobStatus(error);
+          updateJob(algo.id, { status, detail: error.message });
+          // Memory-bounded searches can legitimately give up; only the selected algorithm is fatal
+          if (status === 'cancelled' || algo.id === selectedAlgorithm.id) throw error;
+          console.warn(`Skipping ${algo.id} in comparison:`, error);
+          continue;
+        }
+        // Search costs are time weights under the travel-time metric, so length and
+        // travel time are always summed from the edges along the returned path
+        const { length, duration, cost } = measurePath(snapped.graph, result.path);
+
+        results[algo.id] = {
+          result: { ...result, distance: length / 1000, cost },
+          // Battery routes stop to charge on the way
+          travelTime: `${(duration + (result.chargeTime ?? 0)).toFixed(2)}s`,
+        };
+        updateJob(algo.id, {
+          status: 'done',
+          detail: `${(length / 1000).toFixed(2)}km, ${(result.time / 1000).toFixed(2)}s`,
+        });
+        setComparisonResults((current) => ({
+          ...current,
+          [algo.id]: comparisonEntry(algo.id, results[algo.id].result),
+        }));
       }
 
       // Set pathResult for the selected algorithm
       const selectedResult = results[selectedAlgorithm.id].result;
       const selectedTravelTime = results[selectedAlgorithm.id].travelTime;
+      const selectedGraph = snapped.graph;
 
+      // Routes are drawn along the street shapes of the edges they traverse
+      const segments = pathGeometry(selectedGraph, selectedResult.path);
       const pathResult: PathResult = {
-        coordinates: selectedResult.path,
+        coordinates: segments.length > 0 ? stitchGeometry(segments) : selectedResult.path,
+        segments,
+        steps: buildInstructions(selectedGraph, selectedResult.path),
         algorithm: selectedAlgorithm.id,
         time: `${(selectedResult.time / 1000).toFixed(2)}s`,
-                                      travelTime: selectedTravelTime,
-                                      distance: `${selectedResult.distance.toFixed(1)}km`,
-                                      nodes: selectedResult.nodesVisited,
-                                      visitedNodes: selectedResult.visitedNodes,
-                                      edgesExplored: selectedResult.edgesExplored,
-                                      pathNodeCount: selectedResult.pathNodeCount,
+        travelTime: selectedTravelTime,
+        distance: `${selectedResult.distance.toFixed(1)}km`,
+        nodes: selectedResult.nodesVisited,
+        visitedNodes: selectedResult.visitedNodes,
+        edgesExplored: selectedResult.edgesExplored,
+        pathNodeCount: selectedResult.pathNodeCount,
+        landmarks: selectedResult.landmarks,
+        alternatives: selectedResult.alternatives?.map((route: AlternativeRoute) => ({
+          ...route,
+          path: routeGeometry(selectedGraph, route.path),
+        })),
+        stateOfCharge: selectedResult.stateOfCharge,
+        chargingStops: selectedResult.chargingStops?.map((stop: ChargingStop) => stop.coordinates),
+        profile: profile.id,
+        previousPath:
+          previousRun?.[selectedAlgorithm.id] &&
+          !samePath(previousRun[selectedAlgorithm.id].path, selectedResult.path)
+            ? routeGeometry(
+                withVirtualNodes(weightedGraph, anchors).graph,
+                previousRun[selectedAlgorithm.id].path
+              )
+            : undefined,
       };
 
-      // Build comparisonResults with actual metrics for all algorithms
-      const newComparisonResults: Record<string, ComparisonResult> = {
-        dijkstra: {
-          time: `${(results['dijkstra'].result.time / 1000).toFixed(2)}s`,
-                                      distance: `${results['dijkstra'].result.distance.toFixed(1)}km`,
-                                      nodes: results['dijkstra'].result.nodesVisited,
-                                      edgesExplored: results['dijkstra'].result.edgesExplored,
-                                      pathNodeCount: results['dijkstra'].result.pathNodeCount,
-        },
-        'a-star': {
-          time: `${(results['a-star'].result.time / 1000).toFixed(2)}s`,
-                                      distance: `${results['a-star'].result.distance.toFixed(1)}km`,
-                                      nodes: results['a-star'].result.nodesVisited,
-                                      edgesExplored: results['a-star'].result.edgesExplored,
-                                      pathNodeCount: results['a-star'].result.pathNodeCount,
-        },
-        gbfs: {
-          time: `${(results['gbfs'].result.time / 1000).toFixed(2)}s`,
-                                      distance: `${results['gbfs'].result.distance.toFixed(1)}km`,
-                                      nodes: results['gbfs'].result.nodesVisited,
-                                      edgesExplored: results['gbfs'].result.edgesExplored,
-                                      pathNodeCount: results['gbfs'].result.pathNodeCount,
-        },
-        'bellman-ford': {
-          time: `${(results['bellman-ford'].result.time / 1000).toFixed(2)}s`,
-                                      distance: `${results['bellman-ford'].result.distance.toFixed(1)}km`,
-                                      nodes: results['bellman-ford'].result.nodesVisited,
-                                      edgesExplored: results['bellman-ford'].result.edgesExplored,
-                                      pathNodeCount: results['bellman-ford'].result.pathNodeCount,
-        },
+      // Shortest route with one-way rules lifted, to show how far the rules force a detour
+      if (directed) {
+        const unrestricted = withVirtualNodes(
+          applyZones(
+            applyClosures(applyWeighting(ignoreOneWay(network), weighting), closures),
+            activeZones
+          ),
+          anchors
+        );
+        const [unrestrictedStart, unrestrictedEnd] = unrestricted.points;
+        // Only a reference for one metric: if it fails, the routes are still reported
+        try {
+          const route = await scheduler.run(() =>
+            dijkstraPathfinding(unrestricted.graph, unrestrictedStart, unrestrictedEnd, 'dijkstra')
+          );
+          unrestrictedDistance = measurePath(unrestricted.graph, route.path).length / 1000;
+        } catch (error: any) {
+          if (jobStatus(error) === 'cancelled') throw error;
+          console.warn('Skipping the one-way detour comparison:', error);
+        }
+      }
+
+      lastRun.current = {
+        baseKey,
+        closureKey,
+        routes: Object.fromEntries(
+          Object.entries(results).map(([id, { result }]) => [
+            id,
+            { path: result.path, cost: result.cost },
+          ])
+        ),
       };
 
+      allPairsMatrices.current = {};
+      for (const [id, { result }] of Object.entries(results)) {
+        if (result.matrix) allPairsMatrices.current[id] = result.matrix;
+      }
+
       setPathResult(pathResult);
-      setComparisonResults(newComparisonResults);
+      setSelectedAlternative(0);
+      setSelectedStep(null);
+      setProgress(null);
+      setComparisonResults(
+        Object.fromEntries(
+          Object.entries(results).map(([id, { result }]) => [id, comparisonEntry(id, result)])
+        )
+      );
       setIsComputing(false);
 
       console.log('Final pathResult set:', pathResult);
     } catch (error: any) {
-      setErrorMsg(`Error computing path: ${error.message || 'Unknown error'}`);
+      if (error instanceof JobCancelledError) {
+        // Jobs that never started are cancelled too; the same query can be run again
+        setJobs(
+          (current) =>
+            current &&
+            Object.fromEntries(
+              Object.entries(current).map(([id, job]) => [
+                id,
+                job.status === 'queued' ? { status: 'cancelled' as JobStatus } : job,
+              ])
+            )
+        );
+        lastPathfindingInputs.current = null;
+      } else {
+        setErrorMsg(`Error computing path: ${error.message || 'Unknown error'}`);
+      }
+      setIsComputing(false);
+      setProgress(null);
+    } finally {
+      if (activeScheduler.current === scheduler) activeScheduler.current = null;
+    }
+  }, [
+    selectedAlgorithm,
+    startPoint,
+    endPoint,
+    startEdge,
+    endEdge,
+    graph,
+    landmarkStrategy,
+    k,
+    epsilon,
+    nodeBudget,
+    turnAware,
+    banUTurns,
+    oneWayRules,
+    weightMetric,
+    profileId,
+    startingCharge,
+    closures,
+    zones,
+    zonesEnabled,
+    jobTimeout,
+    comparedAlgorithms,
+    queue,
+  ]);
+
+  // Times every queue-based algorithm with every queue on the current query
+  const onBenchmarkQueues = useCallback(async () => {
+    if (!startPoint || !endPoint) {
+      setErrorMsg('Please select both start and end points.');
+      return;
+    }
+    if (!graph || graph.nodes.size === 0) {
+      setErrorMsg('Graph data not loaded.');
+      return;
+    }
+    // Scheduled jobs run one at a time; a comparison still running owns the scheduler
+    if (activeScheduler.current) {
+      setErrorMsg('Wait for the current run to finish or cancel it first.');
+      return;
+    }
+
+    setIsComputing(true);
+    setErrorMsg(null);
+    setQueueBenchmark({});
+    const scheduler = new JobScheduler(jobTimeout);
+    activeScheduler.current = scheduler;
+
+    try {
+      const { weightedGraph, routingGraph } = prepareNetwork(
+        graph,
+        profileId,
+        weightMetric,
+        oneWayRules,
+        closures,
+        zonesEnabled ? zones : []
+      );
+      // Every queue-based search takes the virtual nodes of points picked on a street
+      const snapped = withVirtualNodes(
+        routingGraph,
+        queryAnchors(startPoint, startEdge, endPoint, endEdge)
+      );
+      const [start, end] = snapped.points;
+      // Turn-aware searches use their own heap, so turn costs stay off
+      const options = {
+        landmarkStrategy,
+        k,
+        epsilon,
+        nodeBudget,
+        startingCharge,
+        turnAware: false,
+        turnOptions: defaultTurnOptions,
+        queue,
+      };
+      setProgress({ label: 'Benchmarking queues', value: 0 });
+      await benchmarkQueues(
+        { graph: snapped.graph, baseGraph: weightedGraph, start, end, options, results: {} },
+        scheduler,
+        (algorithmId, queueId, cell, value) => {
+          setQueueBenchmark((current) => ({
+            ...current,
+            [algorithmId]: { ...current?.[algorithmId], [queueId]: cell },
+          }));
+          setProgress({ label: 'Benchmarking queues', value });
+        }
+      );
+    } catch (error: any) {
+      if (!(error instanceof JobCancelledError)) {
+        setErrorMsg(`Error benchmarking queues: ${error.message || 'Unknown error'}`);
+      }
+    } finally {
       setIsComputing(false);
+      setProgress(null);
+      if (activeScheduler.current === scheduler) activeScheduler.current = null;
     }
-  }, [selectedAlgorithm, startPoint, endPoint, startEdge, endEdge, graph]);
+  }, [
+    startPoint,
+    endPoint,
+    startEdge,
+    endEdge,
+    graph,
+    profileId,
+    weightMetric,
+    oneWayRules,
+    closures,
+    zones,
+    zonesEnabled,
+    landmarkStrategy,
+    k,
+    epsilon,
+    nodeBudget,
+    startingCharge,
+    queue,
+    jobTimeout,
+  ]);
 
-  const onAlgorithmSelect = useCallback((algorithm: algorithm) => {
+  const onCancelPathfinding = useCallback(() => {
+    activeScheduler.current?.cancel();
+  }, []);
+
+  // Closure edits rerun the last query once fetchDirections sees the new closures
+  useEffect(() => {
+    if (!closureRerun.current) return;
+    closureRerun.current = false;
+    fetchDirections();
+  }, [fetchDirections]);
+
+  const onAlgorithmSelect = useCallback((algorithm: AlgorithmDefinition) => {
     setSelectedAlgorithm(algorithm);
     setPathResult(null);
     setComparisonResults(null);
@@ -240,14 +897,34 @@ const PathfindingComparison: React.FC = () => {
     lastPathfindingInputs.current = null;
   }, []);
 
-  const onAlgorithmInfo = useCallback((algorithm: algorithm) => {
-    const descriptions: { [key: string]: string } = {
-      dijkstra: "Dijkstra's algorithm guarantees the shortest path in a weighted graph but explores more nodes than A*.",
-      'a-star': 'A* uses heuristics to optimize pathfinding, making it faster than Dijkstra in many cases.',
-      gbfs: 'Greedy Best-First Search prioritizes nodes closest to the destination (by straight-line distance), often finding a path quickly but not necessarily the shortest.',
-                                      'bellman-ford': 'Bellman-Ford finds the shortest path and can handle negative weights, but is slower than Dijkstra.',
-    };
-    Alert.alert(algorithm.name, descriptions[algorithm.id] || 'No description available.');
+  const onExportMatrix = useCallback(
+    async (format: 'csv' | 'json') => {
+      const matrix = selectedAlgorithm ? allPairsMatrices.current[selectedAlgorithm.id] : undefined;
+      if (!matrix) return;
+      try {
+        await Share.share({
+          title: `${selectedAlgorithm!.name} distance matrix`,
+          message: format === 'csv' ? matrixToCSV(matrix) : matrixToJSON(matrix),
+        });
+      } catch (error: any) {
+        setErrorMsg(`Error exporting matrix: ${error.message || 'Unknown error'}`);
+      }
+    },
+    [selectedAlgorithm]
+  );
+
+  const onAlgorithmInfo = useCallback((algorithm: AlgorithmDefinition) => {
+    setInfoAlgorithm(algorithm);
+  }, []);
+
+  const onComparedAlgorithmToggle = useCallback((id: string) => {
+    setComparedAlgorithms((current) =>
+      current.includes(id) ? current.filter((candidate) => candidate !== id) : [...current, id]
+    );
+  }, []);
+
+  const onCompareAll = useCallback((all: boolean) => {
+    setComparedAlgorithms(all ? algorithms.map((definition) => definition.id) : []);
   }, []);
 
   useEffect(() => {
@@ -258,38 +935,113 @@ const PathfindingComparison: React.FC = () => {
 
   return (
     <View style={styles.container}>
-    <MapView
-    onMapLoaded={onMapLoaded}
-    onError={onError}
-    startPoint={startPoint}
-    endPoint={endPoint}
-    pathResult={pathResult}
-    onPointSelected={onPointSelected}
-    selectionMode={selectionMode}
-    onTapMap={onTapMap}
-    onGraphUpdate={onGraphUpdate}
-    showVisitedNodes={showVisitedNodes}
-    />
-    <ControlPanel
-    key={comparisonResults ? JSON.stringify(comparisonResults) : 'no-results'}
-    mapLoaded={mapLoaded}
-    selectedAlgorithm={selectedAlgorithm}
-    startPoint={startPoint}
-    endPoint={endPoint}
-    isComputing={isComputing}
-    comparisonResults={comparisonResults}
-    travelTime={pathResult?.travelTime}
-    showVisitedNodes={showVisitedNodes}
-    onShowVisitedNodesChange={setShowVisitedNodes}
-    onAlgorithmSelect={onAlgorithmSelect}
-    onAlgorithmInfo={onAlgorithmInfo}
-    onSelectStartPoint={onSelectStartPoint}
-    onSelectEndPoint={onSelectEndPoint}
-    onStartPathfinding={fetchDirections}
-    onClearPoints={onClearPoints}
-    onSwapPoints={onSwapPoints}
-    selectionMode={selectionMode}
-    />
+      <MapView
+        onMapLoaded={onMapLoaded}
+        onError={onError}
+        startPoint={startPoint}
+        endPoint={endPoint}
+        pathResult={pathResult}
+        onPointSelected={onPointSelected}
+        selectionMode={selectionMode}
+        onTapMap={onTapMap}
+        onGraphUpdate={onGraphUpdate}
+        showVisitedNodes={showVisitedNodes}
+        selectedAlternative={selectedAlternative}
+        onAlternativeSelect={setSelectedAlternative}
+        closureMode={closureMode}
+        closures={closures}
+        onEdgeToggle={onEdgeToggle}
+        zones={zones}
+        zoneDraft={zoneDraft}
+        onZoneVertex={onZoneVertex}
+        focusedStep={selectedStep !== null ? pathResult?.steps?.[selectedStep] : undefined}
+      />
+      <ControlPanel
+        key={comparisonResults ? JSON.stringify(comparisonResults) : 'no-results'}
+        mapLoaded={mapLoaded}
+        selectedAlgorithm={selectedAlgorithm}
+        startPoint={startPoint}
+        endPoint={endPoint}
+        isComputing={isComputing}
+        comparisonResults={comparisonResults}
+        travelTime={pathResult?.travelTime}
+        showVisitedNodes={showVisitedNodes}
+        onShowVisitedNodesChange={setShowVisitedNodes}
+        onAlgorithmSelect={onAlgorithmSelect}
+        onAlgorithmInfo={onAlgorithmInfo}
+        comparedAlgorithms={comparedAlgorithms}
+        onComparedAlgorithmToggle={onComparedAlgorithmToggle}
+        onCompareAll={onCompareAll}
+        onSelectStartPoint={onSelectStartPoint}
+        onSelectEndPoint={onSelectEndPoint}
+        onStartPathfinding={fetchDirections}
+        onCancelPathfinding={onCancelPathfinding}
+        jobs={jobs}
+        queue={queue}
+        onQueueChange={setQueue}
+        queueBenchmark={queueBenchmark}
+        onBenchmarkQueues={onBenchmarkQueues}
+        jobTimeout={jobTimeout}
+        onJobTimeoutChange={setJobTimeout}
+        onClearPoints={onClearPoints}
+        onSwapPoints={onSwapPoints}
+        selectionMode={selectionMode}
+        landmarkStrategy={landmarkStrategy}
+        onLandmarkStrategyChange={setLandmarkStrategy}
+        k={k}
+        onKChange={setK}
+        epsilon={epsilon}
+        onEpsilonChange={setEpsilon}
+        nodeBudget={nodeBudget}
+        turnAware={turnAware}
+        onTurnAwareChange={setTurnAware}
+        banUTurns={banUTurns}
+        onBanUTurnsChange={setBanUTurns}
+        oneWayRules={oneWayRules}
+        onOneWayRulesChange={setOneWayRules}
+        weightMetric={weightMetric}
+        onWeightMetricChange={setWeightMetric}
+        profileId={profileId}
+        onProfileChange={setProfileId}
+        onNodeBudgetChange={setNodeBudget}
+        startingCharge={startingCharge}
+        onStartingChargeChange={setStartingCharge}
+        closureMode={closureMode}
+        onClosureModeChange={onClosureModeChange}
+        closurePenalty={closurePenalty}
+        onClosurePenaltyChange={setClosurePenalty}
+        closureCount={closures.size}
+        onClearClosures={onClearClosures}
+        zones={zones}
+        zonesEnabled={zonesEnabled}
+        onZonesEnabledChange={setZonesEnabled}
+        zoneDrawing={zoneDraft !== null}
+        zoneDraftPoints={zoneDraft?.length ?? 0}
+        onZoneDrawingChange={onZoneDrawingChange}
+        onFinishZone={onFinishZone}
+        zonePenalty={zonePenalty}
+        onZonePenaltyChange={setZonePenalty}
+        onZoneToggle={onZoneToggle}
+        onZoneDelete={onZoneDelete}
+        onZoneImport={() => setZoneImportVisible(true)}
+        progress={progress}
+        onExportMatrix={onExportMatrix}
+        selectedAlternative={selectedAlternative}
+        onAlternativeSelect={setSelectedAlternative}
+        steps={pathResult?.steps}
+        selectedStep={selectedStep}
+        onStepSelect={setSelectedStep}
+      />
+      <ZoneImportModal
+        visible={zoneImportVisible}
+        onImport={onImportZones}
+        onClose={() => setZoneImportVisible(false)}
+      />
+      <AlgorithmInfoModal
+        visible={infoAlgorithm !== null}
+        algorithm={infoAlgorithm}
+        onClose={() => setInfoAlgorithm(null)}
+      />
     </View>
   );
 };
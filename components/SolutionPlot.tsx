@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { StyleSheet, Text, View, LayoutChangeEvent } from 'react-native';
+import Svg, { Circle, Line, Polyline, Text as SvgText } from 'react-native-svg';
+
+type SolutionPlotProps = {
+  solutions: { time: number; distance: number; bound: number }[]; // ms, km
+  references?: { label: string; time: number; distance: number; color: string }[];
+};
+
+const HEIGHT = 140;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 44 };
+
+// Solution cost against time for anytime searches, with single-shot algorithms as reference points
+const SolutionPlot: React.FC<SolutionPlotProps> = ({ solutions, references = [] }) => {
+  const [width, setWidth] = useState(0);
+
+  const onLayout = (event: LayoutChangeEvent) => {
+    setWidth(event.nativeEvent.layout.width);
+  };
+
+  const points = [...solutions, ...references];
+  const maxTime = Math.max(...points.map((p) => p.time), 1);
+  const minDistance = Math.min(...points.map((p) => p.distance));
+  const maxDistance = Math.max(...points.map((p) => p.distance));
+  const distanceRange = Math.max(maxDistance - minDistance, 0.01);
+
+  const plotWidth = Math.max(width - PADDING.left - PADDING.right, 1);
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (time: number) => PADDING.left + (time / maxTime) * plotWidth;
+  const y = (distance: number) =>
+    PADDING.top + plotHeight - ((distance - minDistance) / distanceRange) * plotHeight;
+
+  // Each solution holds until the next one arrives
+  const stepPoints = solutions
+    .flatMap((solution, index) => {
+      const next = solutions[index + 1];
+      const endTime = next ? next.time : maxTime;
+      return [
+        `${x(solution.time)},${y(solution.distance)}`,
+        `${x(endTime)},${y(solution.distance)}`,
+      ];
+    })
+    .join(' ');
+
+  return (
+    <View style={styles.container} onLayout={onLayout}>
+      <Text style={styles.title}>Solution cost vs. time</Text>
+      {width > 0 && (
+        <Svg width={width} height={HEIGHT}>
+          <Line
+            x1={PADDING.left}
+            y1={PADDING.top}
+            x2={PADDING.left}
+            y2={PADDING.top + plotHeight}
+            stroke="#9e9e9e"
+          />
+          <Line
+            x1={PADDING.left}
+            y1={PADDING.top + plotHeight}
+            x2={PADDING.left + plotWidth}
+            y2={PADDING.top + plotHeight}
+            stroke="#9e9e9e"
+          />
+          <SvgText x={4} y={PADDING.top + 8} fontSize={10} fill="#757575">
+            {maxDistance.toFixed(2)}km
+          </SvgText>
+          <SvgText x={4} y={PADDING.top + plotHeight} fontSize={10} fill="#757575">
+            {minDistance.toFixed(2)}km
+          </SvgText>
+          <SvgText x={PADDING.left + plotWidth - 40} y={HEIGHT - 6} fontSize={10} fill="#757575">
+            {maxTime.toFixed(1)}ms
+          </SvgText>
+
+          <Polyline points={stepPoints} fill="none" stroke="#2196F3" strokeWidth={2} />
+          {solutions.map((solution, index) => (
+            <Circle
+              key={`solution-${index}`}
+              cx={x(solution.time)}
+              cy={y(solution.distance)}
+              r={4}
+              fill="#2196F3"
+            />
+          ))}
+          {references.map((reference) => (
+            <React.Fragment key={reference.label}>
+              <Circle
+                cx={x(reference.time)}
+                cy={y(reference.distance)}
+                r={5}
+                fill={reference.color}
+              />
+              <SvgText
+                x={x(reference.time) + 6}
+                y={y(reference.distance) - 6}
+                fontSize={10}
+                fill={reference.color}>
+                {reference.label}
+              </SvgText>
+            </React.Fragment>
+          ))}
+        </Svg>
+      )}
+      <Text style={styles.caption}>
+        {solutions.map((s) => `≤${s.bound.toFixed(2)}×`).join('  →  ')}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 8,
+    marginBottom: 8,
+  },
+  title: {
+    fontSize: 12,
+    color: '#757575',
+    marginBottom: 4,
+  },
+  caption: {
+    fontSize: 11,
+    color: '#555',
+    textAlign: 'center',
+  },
+});
+
+export default SolutionPlot;
@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import {
+  StyleSheet,
+  Text,
+  TextInput,
+  View,
+  Modal,
+  TouchableOpacity,
+  TouchableWithoutFeedback,
+} from 'react-native';
+
+import { AvoidZone, parseZonesGeoJSON } from '../utils/avoidZones';
+
+type ZoneImportModalProps = {
+  visible: boolean;
+  onImport: (zones: AvoidZone[]) => void;
+  onClose: () => void;
+};
+
+// Avoid zones pasted as GeoJSON, e.g. a flood map exported from QGIS or geojson.io
+const ZoneImportModal: React.FC<ZoneImportModalProps> = ({ visible, onImport, onClose }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = () => {
+    try {
+      onImport(parseZonesGeoJSON(text));
+      setText('');
+      setError(null);
+    } catch (e: any) {
+      setError(e.message);
+    }
+  };
+
+  return (
+    <Modal animationType="fade" transparent visible={visible} onRequestClose={onClose}>
+      <TouchableWithoutFeedback onPress={onClose}>
+        <View style={styles.modalOverlay}>
+          <TouchableWithoutFeedback>
+            <View style={styles.modalContent}>
+              <Text style={styles.modalTitle}>Import avoid zones</Text>
+              <Text style={styles.modalDescription}>
+                Paste a GeoJSON Polygon, MultiPolygon, Feature or FeatureCollection. A numeric
+                "penalty" property slows routes through the zone instead of avoiding it.
+              </Text>
+
+              <TextInput
+                style={styles.input}
+                value={text}
+                onChangeText={setText}
+                placeholder='{"type": "FeatureCollection", ...}'
+                multiline
+                autoCapitalize="none"
+                autoCorrect={false}
+              />
+              {error && <Text style={styles.errorText}>{error}</Text>}
+
+              <View style={styles.buttonRow}>
+                <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onClose}>
+                  <Text style={styles.cancelButtonText}>Cancel</Text>
+                </TouchableOpacity>
+                <TouchableOpacity
+                  style={[styles.button, !text.trim() && styles.disabledButton]}
+                  onPress={handleImport}
+                  disabled={!text.trim()}>
+                  <Text style={styles.buttonText}>Import</Text>
+                </TouchableOpacity>
+              </View>
+            </View>
+          </TouchableWithoutFeedback>
+        </View>
+      </TouchableWithoutFeedback>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  modalOverlay: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  modalContent: {
+    backgroundColor: 'white',
+    borderRadius: 12,
+    padding: 24,
+    width: '85%',
+    maxHeight: '80%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 3.84,
+    elevation: 5,
+  },
+  modalTitle: {
+    fontSize: 22,
+    fontWeight: 'bold',
+    color: '#333',
+    marginBottom: 12,
+  },
+  modalDescription: {
+    fontSize: 14,
+    color: '#555',
+    marginBottom: 12,
+    lineHeight: 20,
+  },
+  input: {
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    padding: 12,
+    height: 160,
+    fontSize: 12,
+    fontFamily: 'monospace',
+    textAlignVertical: 'top',
+    color: '#333',
+  },
+  errorText: {
+    color: '#D32F2F',
+    fontSize: 13,
+    marginTop: 8,
+  },
+  buttonRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 16,
+  },
+  button: {
+    backgroundColor: '#2196F3',
+    paddingVertical: 12,
+    paddingHorizontal: 24,
+    borderRadius: 8,
+    alignItems: 'center',
+    marginLeft: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#f5f5f5',
+  },
+  disabledButton: {
+    backgroundColor: '#90CAF9',
+  },
+  buttonText: {
+    color: 'white',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+  cancelButtonText: {
+    color: '#333',
+    fontWeight: 'bold',
+    fontSize: 16,
+  },
+});
+
+export default ZoneImportModal;
@@ -0,0 +1,160 @@
+"""Export the Naga City drive network from OpenStreetMap into the app's data modules.
+
+Writes utils/nodes.ts and utils/edges.ts as GeoJSON feature collections wrapped in
+`export const` declarations. MapView builds the graph from both, so they must come
+from the same download: re-export them together whenever either changes. The turn
+restriction records in utils/turnRestrictions.ts are resolved against the same graph
+and rewritten with them.
+
+    pip install osmnx
+    python scripts/export_osm_data.py [--place "Naga, Camarines Sur, Philippines"]
+"""
+
+import argparse
+import json
+import re
+from pathlib import Path
+
+import osmnx as ox
+import requests
+
+UTILS = Path(__file__).resolve().parent.parent / "utils"
+DEFAULT_PLACE = "Naga, Camarines Sur, Philippines"
+CRS = {"type": "name", "properties": {"name": "urn:ogc:def:crs:OGC:1.3:CRS84"}}
+OVERPASS_URL = "https://overpass-api.de/api/interpreter"
+
+# The restriction values utils/turnRestrictions.ts understands
+RESTRICTION_TYPES = {
+    "no_left_turn",
+    "no_right_turn",
+    "no_straight_on",
+    "no_u_turn",
+    "only_left_turn",
+    "only_right_turn",
+    "only_straight_on",
+}
+
+NODE_COLUMNS = ["osmid", "node_id", "street_count", "highway", "geometry"]
+EDGE_COLUMNS = ["u", "v", "key", "osmid", "oneway", "reversed", "length", "highway", "maxspeed", "name", "geometry"]
+
+
+def flatten(value):
+    # Merged edges carry lists; they are written the way OSMnx's own file exports do
+    return str(value) if isinstance(value, list) else value
+
+
+def feature_collection(gdf, name):
+    collection = json.loads(gdf.to_crs(epsg=4326).to_json(drop_id=True, na="null"))
+    return {"type": "FeatureCollection", "name": name, "crs": CRS, "features": collection["features"]}
+
+
+def write_module(path, const, collection):
+    # One feature per line, like the existing exports, so diffs stay readable
+    header = {key: value for key, value in collection.items() if key != "features"}
+    lines = [f"export const {const} = {{"]
+    lines += [f'"{key}": {json.dumps(value)},' for key, value in header.items()]
+    lines.append('"features": [')
+    features = [json.dumps(feature, ensure_ascii=False) for feature in collection["features"]]
+    lines += [f"    {feature}," for feature in features[:-1]] + [f"    {features[-1]}" if features else ""]
+    lines += ["],", "};", ""]
+    path.write_text("\n".join(lines), encoding="utf-8")
+    print(f"Wrote {len(features)} features to {path}")
+
+
+def fetch_restrictions(bounds):
+    west, south, east, north = bounds
+    query = f"""[out:json][timeout:180];
+relation["type"="restriction"]({south},{west},{north},{east})->.restrictions;
+.restrictions out body;
+way(r.restrictions);
+out body;"""
+    response = requests.post(OVERPASS_URL, data={"data": query}, timeout=300)
+    response.raise_for_status()
+    elements = response.json()["elements"]
+    ways = {element["id"]: element["nodes"] for element in elements if element["type"] == "way"}
+    relations = [element for element in elements if element["type"] == "relation"]
+    return relations, ways
+
+
+def graph_neighbour(way_nodes, via, graph):
+    # The first graph node along the way away from the via node. Simplified graphs
+    # drop the way's interior vertices, so the OSM neighbour is often not a graph node.
+    # A way that passes through the via node leaves the direction open and is skipped.
+    if way_nodes[0] == via:
+        walk = way_nodes[1:]
+    elif way_nodes[-1] == via:
+        walk = reversed(way_nodes[:-1])
+    else:
+        return None
+    return next((node for node in walk if node in graph.nodes), None)
+
+
+def resolve_restrictions(graph, relations, ways):
+    records = []
+    for relation in relations:
+        tags = relation.get("tags", {})
+        restriction = tags.get("restriction") or tags.get("restriction:motorcar")
+        members = {member["role"]: member for member in relation["members"]}
+        via, source, target = members.get("via"), members.get("from"), members.get("to")
+        # Only node-via relations between ways the download holds are supported
+        if restriction not in RESTRICTION_TYPES or not (via and source and target):
+            continue
+        if via["type"] != "node" or via["ref"] not in graph.nodes:
+            continue
+        if source["ref"] not in ways or target["ref"] not in ways:
+            continue
+
+        from_node = graph_neighbour(ways[source["ref"]], via["ref"], graph)
+        to_node = graph_neighbour(ways[target["ref"]], via["ref"], graph)
+        if from_node is None or to_node is None:
+            continue
+        if not graph.has_edge(from_node, via["ref"]) or not graph.has_edge(via["ref"], to_node):
+            continue
+        records.append({"id": relation["id"], "restriction": restriction, "from": from_node, "via": via["ref"], "to": to_node})
+    return sorted(records, key=lambda record: record["id"])
+
+
+def write_restrictions(path, records):
+    lines = [
+        f"    {{ id: {r['id']}, restriction: '{r['restriction']}', from: '{r['from']}', via: '{r['via']}', to: '{r['to']}' }},"
+        for r in records
+    ]
+    block = "\n".join(["  restrictions: [", *lines, "  ],"]) if lines else "  restrictions: [],"
+    source = path.read_text(encoding="utf-8")
+    updated, count = re.subn(r"^  restrictions: \[.*?\],$", lambda _: block, source, count=1, flags=re.M | re.S)
+    if count != 1:
+        raise SystemExit(f"No restrictions list found in {path}")
+    path.write_text(updated, encoding="utf-8")
+    print(f"Wrote {len(records)} turn restrictions to {path}")
+
+
+def main():
+    parser = argparse.ArgumentParser(description=__doc__.splitlines()[0])
+    parser.add_argument("--place", default=DEFAULT_PLACE)
+    args = parser.parse_args()
+
+    graph = ox.graph_from_place(args.place, network_type="drive")
+    nodes, edges = ox.graph_to_gdfs(graph)
+
+    nodes = nodes.reset_index()
+    nodes["node_id"] = nodes["osmid"].astype(str)
+    nodes = nodes.reindex(columns=NODE_COLUMNS)
+
+    edges = edges.reset_index().reindex(columns=EDGE_COLUMNS)
+    for column in EDGE_COLUMNS[:-1]:
+        edges[column] = edges[column].map(flatten)
+
+    write_module(UTILS / "nodes.ts", "nodesGeoJSON", feature_collection(nodes, "naga_nodes_for_mapbox"))
+    write_module(UTILS / "edges.ts", "edgesGeoJSON", feature_collection(edges, "naga_edges_for_mapbox"))
+
+    relations, ways = fetch_restrictions(nodes.total_bounds)
+    records = resolve_restrictions(graph, relations, ways)
+    print(f"Resolved {len(records)} of {len(relations)} restriction relations")
+    # Relations that all fail to resolve mean the matching is broken, not that the area has none
+    if relations and not records:
+        raise SystemExit("No turn restriction resolved against the graph; not overwriting the list")
+    write_restrictions(UTILS / "turnRestrictions.ts", records)
+
+
+if __name__ == "__main__":
+    main()
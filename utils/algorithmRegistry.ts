@@ -0,0 +1,530 @@
+// utils/algorithmRegistry.ts
+// Every algorithm the app can compare, declared once: its name and category, the
+// color its route is drawn in, the texts shown for it, its complexity, which options
+// it reads and how to run it. The picker, option rows, descriptions, info sheet, map
+// colors and comparison run are all driven from here, so a new algorithm only needs
+// a `registerAlgorithm` call.
+import {
+  algorithm,
+  PathfindingResult,
+  dijkstraPathfinding,
+  gbfsPathfinding,
+  bellmanFordPathfinding,
+  bidirectionalPathfinding,
+} from './algorithms';
+import { AllPairsResult, allPairsPathfinding } from './allPairs';
+import { AltResult, altPathfinding, LandmarkStrategy } from './alt';
+import { AnytimeResult, weightedAStarPathfinding, araStarPathfinding } from './araStar';
+import { BatteryResult, batteryPathfinding } from './batteryRouting';
+import {
+  ContractionHierarchyResult,
+  contractionHierarchiesPathfinding,
+} from './contractionHierarchies';
+import { dStarPathfinding } from './dStar';
+import { IncrementalPathfindingResult, dStarLitePathfinding } from './dStarLite';
+import { KShortestPathsResult, kShortestPathfinding } from './kShortestPaths';
+import { LpaStarResult, lpaStarPathfinding } from './lpaStar';
+import { MemoryBoundedResult, idaStarPathfinding, smaStarPathfinding } from './memoryBounded';
+import { QueueKind } from './priorityQueues';
+import { TurnAwareResult, turnAwarePathfinding, TurnOptions } from './turnRouting';
+import {
+  UninformedResult,
+  bfsPathfinding,
+  dfsPathfinding,
+  iddfsPathfinding,
+} from './uninformedSearch';
+import { WeightedGraph } from './weighting';
+
+// Options shown under the picker only for the algorithms that declare them
+export type AlgorithmParameter =
+  | 'landmarkStrategy'
+  | 'k'
+  | 'epsilon'
+  | 'nodeBudget'
+  | 'startingCharge'
+  | 'turnCosts'
+  | 'queue';
+
+export interface AlgorithmOptions {
+  landmarkStrategy: LandmarkStrategy;
+  k: number;
+  epsilon: number;
+  nodeBudget: number;
+  startingCharge: number;
+  turnAware: boolean;
+  turnOptions: TurnOptions;
+  queue: QueueKind;
+}
+
+// Any algorithm's result: the shared fields, plus the extra ones of every result type,
+// each set only by the algorithms that report it
+export type AlgorithmResult = PathfindingResult &
+  Partial<
+    Omit<
+      AnytimeResult &
+        IncrementalPathfindingResult &
+        LpaStarResult &
+        AllPairsResult &
+        BatteryResult &
+        UninformedResult &
+        KShortestPathsResult &
+        MemoryBoundedResult &
+        TurnAwareResult &
+        AltResult &
+        ContractionHierarchyResult,
+      keyof PathfindingResult
+    >
+  >;
+
+export interface RunContext {
+  graph: WeightedGraph;
+  baseGraph: WeightedGraph; // `graph` before closures and zones, for planners that keep state
+  start: { lat: number; lng: number };
+  end: { lat: number; lng: number };
+  options: AlgorithmOptions;
+  results: Record<string, { result: AlgorithmResult }>; // algorithms that already ran in this comparison
+  onProgress: (value: number) => void;
+}
+
+export interface AlgorithmDefinition extends algorithm {
+  category: string;
+  color: string;
+  description: string; // what the algorithm does, for the info sheet
+  details: string; // how to read its results, under the comparison
+  complexity: { time: string; space: string };
+  characteristics?: string[];
+  advantages?: string;
+  disadvantages?: string;
+  parameters: AlgorithmParameter[];
+  dependsOn?: string[]; // run first whenever this algorithm runs
+  // Keeps data precomputed for the whole graph, so it runs without the virtual nodes
+  // of points picked on a street and starts at the nearest intersection instead. A
+  // comparison that includes it starts every algorithm there.
+  snapsToNodes?: boolean;
+  // Too costly to run on every query, so only compared when picked explicitly
+  comparedOnRequest?: boolean;
+  run: (context: RunContext) => Promise<AlgorithmResult>;
+}
+
+const registry = new Map<string, AlgorithmDefinition>();
+
+// Picker order is registration order
+export const algorithms: AlgorithmDefinition[] = [];
+
+export function registerAlgorithm(definition: AlgorithmDefinition): void {
+  if (registry.has(definition.id)) {
+    throw new Error(`Algorithm "${definition.id}" is already registered.`);
+  }
+  registry.set(definition.id, definition);
+  algorithms.push(definition);
+}
+
+export const getAlgorithm = (id: string): AlgorithmDefinition | undefined => registry.get(id);
+
+// The algorithms compared with the selected one until the user changes the set
+export const defaultComparedAlgorithms = (): string[] =>
+  algorithms
+    .filter((definition) => !definition.comparedOnRequest)
+    .map((definition) => definition.id);
+
+// The algorithms to run for a set of ids, in picker order except that each one's
+// dependencies come before it. Unknown ids are ignored.
+export function runOrder(ids: string[]): AlgorithmDefinition[] {
+  const wanted = new Set(ids);
+  const ordered: AlgorithmDefinition[] = [];
+  const added = new Set<string>();
+  const add = (definition: AlgorithmDefinition) => {
+    if (added.has(definition.id)) return;
+    added.add(definition.id);
+    definition.dependsOn?.forEach((id) => {
+      const dependency = registry.get(id);
+      if (dependency) add(dependency);
+    });
+    ordered.push(definition);
+  };
+  algorithms.filter((definition) => wanted.has(definition.id)).forEach(add);
+  return ordered;
+}
+
+registerAlgorithm({
+  id: 'dijkstra',
+  name: 'Dijkstra',
+  category: 'Shortest path',
+  color: '#FF9800', // Orange
+  description:
+    "Dijkstra's algorithm guarantees the shortest path in a weighted graph but explores more nodes than A*.",
+  details: "Dijkstra's algorithm guarantees the shortest path but explores more nodes than A*.",
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  characteristics: [
+    'Guarantees the shortest path in weighted graphs',
+    'Ideal for route planning with variable costs',
+    'Does not use any heuristic information',
+  ],
+  advantages: 'Guarantees optimal solutions and works well for all types of weighted graphs.',
+  disadvantages: 'Can be slower than informed search algorithms as it explores in all directions.',
+  parameters: ['turnCosts', 'queue'],
+  run: ({ graph, start, end, options }) =>
+    options.turnAware
+      ? turnAwarePathfinding(graph, start, end, 'dijkstra', options.turnOptions)
+      : dijkstraPathfinding(graph, start, end, 'dijkstra', options.queue),
+});
+
+registerAlgorithm({
+  id: 'a-star',
+  name: 'A*',
+  category: 'Heuristic',
+  color: '#4CAF50', // Green
+  description:
+    'A* uses heuristics to optimize pathfinding, making it faster than Dijkstra in many cases.',
+  details:
+    'A* uses heuristics to find paths more efficiently than Dijkstra, resulting in faster computation.',
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  characteristics: [
+    'Uses heuristics to speed up search',
+    'Best for scenarios with spatial information',
+    'Can significantly outperform Dijkstra when heuristics are good',
+  ],
+  advantages: 'Usually expands fewer nodes than Dijkstra while still finding optimal paths.',
+  disadvantages: 'Performance depends heavily on the quality of the heuristic function.',
+  parameters: ['turnCosts', 'queue'],
+  run: ({ graph, start, end, options }) =>
+    options.turnAware
+      ? turnAwarePathfinding(graph, start, end, 'a-star', options.turnOptions)
+      : dijkstraPathfinding(graph, start, end, 'a-star', options.queue),
+});
+
+registerAlgorithm({
+  id: 'ida-star',
+  name: 'IDA*',
+  category: 'Memory-bounded',
+  color: '#1B5E20', // Dark green
+  description:
+    "IDA* runs depth-first searches bounded by growing f = g + h limits, keeping only the current path and a capped table of visited nodes instead of A*'s full open and closed sets.",
+  details:
+    'IDA* repeats depth-first searches with a growing cost limit. It stores only its current path and a table capped at the node budget, paying for the saved memory with repeated expansions.',
+  complexity: {
+    time: 'O(b^d) per iteration, repeated for each cost limit',
+    space: 'O(d) plus the node budget',
+  },
+  parameters: ['nodeBudget'],
+  run: ({ graph, start, end, options }) =>
+    idaStarPathfinding(graph, start, end, options.nodeBudget),
+});
+
+registerAlgorithm({
+  id: 'sma-star',
+  name: 'SMA*',
+  category: 'Memory-bounded',
+  color: '#AED581', // Pale green
+  description:
+    'SMA* (Simplified Memory-Bounded A*) behaves like A* until its node budget is full, then forgets the least promising leaves while remembering their costs in the parent.',
+  details:
+    'SMA* is A* that never stores more than the node budget, forgetting its worst leaves when full. Compare Peak Stored Nodes with what A* keeps; tight budgets cost time or may fail.',
+  complexity: {
+    time: 'O(b^d), more when forgotten leaves are regenerated',
+    space: 'O(node budget)',
+  },
+  parameters: ['nodeBudget'],
+  run: ({ graph, start, end, options }) =>
+    smaStarPathfinding(graph, start, end, options.nodeBudget),
+});
+
+registerAlgorithm({
+  id: 'gbfs',
+  name: 'Greedy Best-First Search',
+  category: 'Heuristic',
+  color: '#FF00FF', // Magenta
+  description:
+    'Greedy Best-First Search prioritizes nodes closest to the destination (by straight-line distance), often finding a path quickly but not necessarily the shortest.',
+  details:
+    'Greedy Best-First Search follows the straight-line distance to the destination alone, so it is fast but its route can be much longer than the shortest.',
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  parameters: ['queue'],
+  run: ({ graph, start, end, options }) => gbfsPathfinding(graph, start, end, options.queue),
+});
+
+registerAlgorithm({
+  id: 'bfs',
+  name: 'Breadth-First Search',
+  category: 'Uninformed',
+  color: '#F44336', // Red
+  description:
+    'Breadth-First Search expands nodes level by level and returns the route with the fewest road segments, ignoring how long each segment is.',
+  details:
+    'Breadth-First Search explores nodes level by level, finding the path with the fewest edges (ignoring weights).',
+  complexity: { time: 'O(V + E)', space: 'O(V)' },
+  parameters: [],
+  run: ({ graph, start, end }) => bfsPathfinding(graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'dfs',
+  name: 'Depth-First Search',
+  category: 'Uninformed',
+  color: '#607D8B', // Blue grey
+  description:
+    'Depth-First Search follows one branch as far as it goes before backtracking, returning the first route it finds, which is usually far from the shortest.',
+  details:
+    'Depth-First Search dives down one road at a time and keeps the first route that reaches the destination. Compare Extra Distance with BFS to see what ignoring weights costs.',
+  complexity: { time: 'O(V + E)', space: 'O(V)' },
+  parameters: [],
+  run: ({ graph, start, end }) => dfsPathfinding(graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'iddfs',
+  name: 'Iterative Deepening DFS',
+  category: 'Uninformed',
+  color: '#CDDC39', // Lime
+  description:
+    'Iterative Deepening DFS repeats depth-limited DFS with a growing limit, finding the fewest-hop route like BFS while only keeping one branch in memory.',
+  details:
+    'Iterative Deepening DFS reruns a depth-limited DFS with a growing hop limit. It finds the same fewest-hop route as BFS but revisits nodes on every round.',
+  complexity: { time: 'O(b^d)', space: 'O(d)' },
+  parameters: [],
+  run: ({ graph, start, end }) => iddfsPathfinding(graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'bellman-ford',
+  name: 'Bellman-Ford',
+  category: 'Shortest path',
+  color: '#00FFFF', // Cyan
+  description:
+    'Bellman-Ford finds the shortest path and can handle negative weights, but is slower than Dijkstra.',
+  details:
+    'Bellman-Ford finds the shortest path and can handle negative weights, but is slower than Dijkstra.',
+  complexity: { time: 'O(V · E)', space: 'O(V)' },
+  parameters: [],
+  run: ({ graph, start, end }) => bellmanFordPathfinding(graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'bidirectional-dijkstra',
+  name: 'Bidirectional Dijkstra',
+  category: 'Bidirectional',
+  color: '#FFC107', // Amber
+  description:
+    'Bidirectional Dijkstra grows one search from the start and one from the end, stopping once the two frontiers prove no shorter connection exists.',
+  details:
+    'Bidirectional Dijkstra searches from both ends at once. With visited nodes shown, the forward frontier is purple and the backward frontier is orange.',
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  parameters: ['queue'],
+  run: ({ graph, start, end, options }) =>
+    bidirectionalPathfinding(graph, start, end, 'bidirectional-dijkstra', options.queue),
+});
+
+registerAlgorithm({
+  id: 'bidirectional-a-star',
+  name: 'Bidirectional A*',
+  category: 'Bidirectional',
+  color: '#009688', // Teal
+  description:
+    'Bidirectional A* runs both searches with averaged straight-line potentials, so each frontier is pulled toward the other while staying optimal.',
+  details:
+    'Bidirectional A* adds straight-line potentials to both searches, so the two frontiers grow toward each other.',
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  parameters: ['queue'],
+  run: ({ graph, start, end, options }) =>
+    bidirectionalPathfinding(graph, start, end, 'bidirectional-a-star', options.queue),
+});
+
+registerAlgorithm({
+  id: 'd-star',
+  name: 'D*',
+  category: 'Incremental',
+  color: '#9C27B0', // Purple
+  description:
+    'D* propagates cost increases and decreases backwards from the goal, repairing its path after a road closure without a full re-search.',
+  details:
+    'D* keeps its search state for each route between queries and repairs its path by propagating RAISE and LOWER states from the streets you closed, penalized or reopened since the last run.',
+  complexity: {
+    time: 'O((V + E) log V) to plan; repairs touch only affected vertices',
+    space: 'O(V)',
+  },
+  characteristics: [
+    'Designed for partially known or changing environments',
+    'Can replan paths when environment changes',
+    'Useful for real-time navigation in unknown terrain',
+  ],
+  advantages: 'Efficient for dynamic environments where the map changes.',
+  disadvantages: 'More complex implementation and higher computational overhead.',
+  parameters: [],
+  snapsToNodes: true,
+  run: ({ graph, baseGraph, start, end }) => dStarPathfinding(baseGraph, graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'd-star-lite',
+  name: 'D* Lite',
+  category: 'Incremental',
+  color: '#2962FF', // Indigo
+  description:
+    'D* Lite searches backwards from the goal and keeps its search state, so after a road closure it repairs the existing path instead of searching from scratch.',
+  details:
+    'D* Lite keeps its search state for each route between queries. After you close, penalize or reopen streets, Replan Nodes counts the vertices it re-expanded, compared with a full re-search.',
+  complexity: {
+    time: 'O((V + E) log V) to plan; repairs touch only affected vertices',
+    space: 'O(V)',
+  },
+  characteristics: [
+    'Modern variant of D* with improved efficiency',
+    'Incrementally repairs paths when environment changes',
+    'Uses heuristic information like A*',
+  ],
+  advantages: 'Faster replanning than original D* in dynamic environments.',
+  disadvantages: 'Still has higher complexity than static algorithms like A*.',
+  parameters: [],
+  snapsToNodes: true,
+  run: ({ graph, baseGraph, start, end }) => dStarLitePathfinding(baseGraph, graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'lpa-star',
+  name: 'LPA*',
+  category: 'Incremental',
+  color: '#00BCD4', // Light cyan
+  description:
+    'LPA* (Lifelong Planning A*) keeps its g and rhs values between queries, so re-asking for the same route after a road change only revisits the vertices whose distance changed.',
+  details:
+    'LPA* is a forward A* that keeps its search state for each route. After you close, penalize or reopen streets, Reconsistent Vertices counts the vertices whose distance had to be corrected to answer the query again.',
+  complexity: {
+    time: 'O((V + E) log V) to plan; repairs touch only affected vertices',
+    space: 'O(V)',
+  },
+  parameters: [],
+  snapsToNodes: true,
+  run: ({ graph, baseGraph, start, end }) => lpaStarPathfinding(baseGraph, graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'contraction-hierarchies',
+  name: 'Contraction Hierarchies',
+  category: 'Preprocessing',
+  color: '#795548', // Brown
+  description:
+    'Contraction Hierarchies preprocess the road network once, adding shortcut edges, so each query only searches upward through a small hierarchy from both ends.',
+  details:
+    'Contraction Hierarchies build shortcut edges once and store them on the device. Exec. Time is the query alone; Query Speedup compares it with plain Dijkstra.',
+  complexity: {
+    time: 'Preprocessing once; each query searches only the upward hierarchy',
+    space: 'O(V + E + shortcuts)',
+  },
+  parameters: [],
+  snapsToNodes: true,
+  run: ({ graph, start, end }) => contractionHierarchiesPathfinding(graph, start, end),
+});
+
+registerAlgorithm({
+  id: 'alt',
+  name: 'ALT',
+  category: 'Preprocessing',
+  color: '#E91E63', // Pink
+  description:
+    'ALT runs A* with lower bounds from precomputed landmark distances and the triangle inequality, which follow the road network far better than straight-line distance.',
+  details:
+    'ALT bounds the remaining distance with precomputed shortest paths to landmarks (shown in yellow) instead of straight-line distance, so it expands fewer nodes than A* around rivers and detours.',
+  complexity: {
+    time: 'O(L (V + E) log V) preprocessing for L landmarks; queries as A*',
+    space: 'O(L · V)',
+  },
+  parameters: ['landmarkStrategy'],
+  snapsToNodes: true,
+  run: ({ graph, start, end, options }) =>
+    altPathfinding(graph, start, end, options.landmarkStrategy),
+});
+
+registerAlgorithm({
+  id: 'k-shortest',
+  name: 'K Shortest (Yen)',
+  category: 'Alternatives',
+  color: '#E65100', // Same as the first alternative route
+  description:
+    "Yen's algorithm returns the k shortest loopless routes by repeatedly branching off earlier routes, showing the alternatives drivers actually take.",
+  details:
+    "Yen's algorithm lists the k shortest loopless routes. Tap a route here or on the map to highlight it; the share shows how much of it follows the best route.",
+  complexity: { time: 'O(k · V · (V + E) log V)', space: 'O(k · V)' },
+  parameters: ['k'],
+  run: ({ graph, start, end, options }) => kShortestPathfinding(graph, start, end, options.k),
+});
+
+registerAlgorithm({
+  id: 'floyd-warshall',
+  name: 'Floyd-Warshall',
+  category: 'All-pairs',
+  color: '#FF5722', // Deep orange
+  description:
+    'Floyd-Warshall computes shortest distances between every pair of nodes in the area around the two points, after which any route inside it is a table lookup.',
+  details:
+    'Floyd-Warshall fills a distance and next-hop table for the nodes around the two points (shown as visited nodes). Preprocessing is the table build; Exec. Time is the lookup alone.',
+  complexity: { time: 'O(V³) over the area around the points', space: 'O(V²)' },
+  parameters: [],
+  snapsToNodes: true,
+  comparedOnRequest: true,
+  run: ({ graph, start, end, onProgress }) =>
+    allPairsPathfinding(graph, start, end, 'floyd-warshall', onProgress),
+});
+
+registerAlgorithm({
+  id: 'johnson',
+  name: 'Johnson',
+  category: 'All-pairs',
+  color: '#673AB7', // Deep purple
+  description:
+    "Johnson's algorithm reweights the whole network with Bellman-Ford and runs Dijkstra from every node, giving an all-pairs distance matrix that can be exported.",
+  details:
+    "Johnson's algorithm builds the distance table for the whole network once, reweighting with Bellman-Ford and running Dijkstra from every node. Later queries are lookups, and a build that times out continues on the next run; export the table as CSV or JSON.",
+  complexity: { time: 'O(V · E + V (V + E) log V)', space: 'O(V²)' },
+  parameters: [],
+  snapsToNodes: true,
+  comparedOnRequest: true,
+  run: ({ graph, start, end, onProgress }) =>
+    allPairsPathfinding(graph, start, end, 'johnson', onProgress),
+});
+
+registerAlgorithm({
+  id: 'weighted-a-star',
+  name: 'Weighted A*',
+  category: 'Bounded suboptimal',
+  color: '#8BC34A', // Light green
+  description:
+    'Weighted A* inflates the straight-line heuristic by epsilon, expanding far fewer nodes while guaranteeing a path at most epsilon times longer than optimal.',
+  details:
+    'Weighted A* multiplies the heuristic by epsilon. Higher values expand fewer nodes and behave more like Greedy Best-First Search; the path is never more than epsilon times the optimum.',
+  complexity: { time: 'O((V + E) log V)', space: 'O(V)' },
+  parameters: ['epsilon'],
+  run: ({ graph, start, end, options }) =>
+    weightedAStarPathfinding(graph, start, end, options.epsilon),
+});
+
+registerAlgorithm({
+  id: 'ara-star',
+  name: 'ARA*',
+  category: 'Anytime',
+  color: '#3F51B5', // Deep indigo
+  description:
+    'ARA* (Anytime Repairing A*) returns a weighted A* path quickly, then keeps lowering epsilon and reusing its search to improve the path until it is provably optimal.',
+  details:
+    "ARA* publishes a path at the chosen epsilon, then improves it as epsilon falls to 1. The plot shows each solution's cost against time, with GBFS and A* for comparison.",
+  complexity: { time: 'O((V + E) log V) per epsilon step, reusing earlier work', space: 'O(V)' },
+  parameters: ['epsilon'],
+  run: ({ graph, start, end, options }) => araStarPathfinding(graph, start, end, options.epsilon),
+});
+
+registerAlgorithm({
+  id: 'e-trike-battery',
+  name: 'E-trike Battery',
+  category: 'Constrained',
+  color: '#00E676', // Bright green; drawn by state of charge instead
+  description:
+    'Battery-constrained routing tracks the charge left on every partial route, never dropping below the reserve, and may stop at a charging station when that gives the fastest trip overall.',
+  details:
+    'The route is colored by battery charge, green when full and red near the 10% reserve. Travel Time includes charging stops, shown as white circles; choose the E-trike vehicle for its road rules and speeds.',
+  complexity: {
+    time: 'O(C (V + E) log(C · V)) for C kept charge levels per node',
+    space: 'O(C · V)',
+  },
+  parameters: ['startingCharge'],
+  run: ({ graph, start, end, options }) =>
+    batteryPathfinding(graph, start, end, options.startingCharge),
+});
@@ -1,4 +1,9 @@
 // algorithms.ts
+import { IndexedHeap } from './indexedHeap';
+import { QueueKind, DEFAULT_QUEUE, createQueue } from './priorityQueues';
+import { busyClock, checkpoint } from './scheduler';
+import { spatialIndex } from './spatialIndex';
+
 // Haversine distance (meters)
 export const haversineDistance = (point1: { lat: number; lng: number }, point2: { lat: number; lng: number }): number => {
   const R = 6371e3; // Earth's radius in meters
@@ -13,67 +18,54 @@ export const haversineDistance = (point1: { lat: number; lng: number }, point2:
   return R * c;
 };
 
-interface Node {
+export interface Node {
   osmid: string;
   lat: number;
   lng: number;
 }
 
-interface Edge {
+export interface Edge {
   source: string;
   target: string;
   weight: number;
+  highway?: string; // OSM road class, see utils/weighting
+  maxspeed?: number; // km/h
+  name?: string; // OSM street name
+  geometry?: number[][]; // [lng, lat] street shape from source to target, see utils/edgeGeometry
 }
 
-interface Graph {
+export interface Graph {
   nodes: Map<string, Node>;
   edges: Map<string, Edge[]>;
 }
 
+export interface PathfindingResult {
+  path: number[][];
+  distance: number; // kilometers
+  time: number; // milliseconds
+  nodesVisited: number;
+  visitedNodes: number[][];
+  edgesExplored: number;
+  pathNodeCount: number;
+}
+
 export function findNearestNode(nodes: Map<string, Node>, point: { lat: number; lng: number }): Node | null {
   if (!nodes || !(nodes instanceof Map)) {
     console.error('findNearestNode: nodes is not a valid Map');
     return null;
   }
 
-  let nearest: Node | null = null;
-  let minDistance = Infinity;
-
-  for (const node of nodes.values()) {
-    const distance = haversineDistance(point, node);
-    if (distance < minDistance) {
-      minDistance = distance;
-      nearest = node;
-    }
-  }
-  return nearest;
-}
-
-// Simple Priority Queue for Dijkstra's, A*, and GBFS
-class PriorityQueue {
-  private items: { element: string; priority: number }[] = [];
-
-  enqueue(element: string, priority: number) {
-    this.items.push({ element, priority });
-    this.items.sort((a, b) => a.priority - b.priority); // Sort by priority (ascending)
-  }
-
-  dequeue(): string | undefined {
-    return this.items.shift()?.element;
-  }
-
-  isEmpty(): boolean {
-    return this.items.length === 0;
-  }
+  return spatialIndex(nodes).nearest(point);
 }
 
 // GBFS Implementation (Greedy Best-First Search, uses only heuristic)
 export async function gbfsPathfinding(
   graph: Graph,
   start: { lat: number; lng: number },
-  end: { lat: number; lng: number }
-): Promise<{ path: number[][]; distance: number; time: number; nodesVisited: number; visitedNodes: number[][]; edgesExplored: number; pathNodeCount: number }> {
-  const startTime = performance.now();
+  end: { lat: number; lng: number },
+  queue: QueueKind = DEFAULT_QUEUE
+): Promise<PathfindingResult> {
+  const startTime = busyClock();
 
   if (!graph || !graph.nodes || !graph.edges) {
     throw new Error('Invalid graph: nodes or edges are missing');
@@ -96,7 +88,7 @@ export async function gbfsPathfinding(
 
   const hScores = new Map<string, number>(); // Heuristic scores (estimated distance to end)
   const previous = new Map<string, string | null>();
-  const pq = new PriorityQueue();
+  const pq = createQueue(queue);
   const visited = new Set<string>();
   const visitedNodes: number[][] = [];
   let edgesExplored = 0;
@@ -107,12 +99,13 @@ export async function gbfsPathfinding(
     previous.set(node, null);
   }
   hScores.set(startNode.osmid, haversineDistance(startNode, endNode));
-  pq.enqueue(startNode.osmid, hScores.get(startNode.osmid)!);
+  pq.push(startNode.osmid, hScores.get(startNode.osmid)!);
   visitedNodes.push([startNode.lng, startNode.lat]);
 
   // GBFS main loop: Process nodes based on heuristic score
   while (!pq.isEmpty()) {
-    const current = pq.dequeue();
+    await checkpoint();
+    const current = pq.pop();
     if (!current) break;
 
     if (visited.has(current)) continue;
@@ -130,7 +123,7 @@ export async function gbfsPathfinding(
       if (!visited.has(neighbor)) {
         hScores.set(neighbor, haversineDistance(graph.nodes.get(neighbor)!, endNode));
         previous.set(neighbor, current);
-        pq.enqueue(neighbor, hScores.get(neighbor)!);
+        pq.push(neighbor, hScores.get(neighbor)!);
       }
     }
   }
@@ -156,7 +149,7 @@ export async function gbfsPathfinding(
     current = prev;
   }
 
-  const endTime = performance.now();
+  const endTime = busyClock();
   const executionTime = endTime - startTime;
 
   const finalMemory = (typeof performance !== 'undefined' && 'memory' in performance)
@@ -190,36 +183,16 @@ export async function gbfsPathfinding(
   };
 }
 
-// Bellman-Ford Implementation
-export async function bellmanFordPathfinding(
+// Bellman-Ford relaxation from one or more sources at distance 0. Several sources
+// behave like a virtual source joined to each of them by a zero-weight edge, which
+// is how Johnson's algorithm computes its reweighting potentials.
+export async function bellmanFordDistances(
   graph: Graph,
-  start: { lat: number; lng: number },
-  end: { lat: number; lng: number }
-): Promise<{ path: number[][]; distance: number; time: number; nodesVisited: number; visitedNodes: number[][]; edgesExplored: number; pathNodeCount: number }> {
-  const startTime = performance.now();
-
-  if (!graph || !graph.nodes || !graph.edges) {
-    throw new Error('Invalid graph: nodes or edges are missing');
-  }
-
-  const startNode = findNearestNode(graph.nodes, start);
-  const endNode = findNearestNode(graph.nodes, end);
-  if (!startNode || !endNode) {
-    throw new Error('Start or end node not found in the graph.');
-  }
-
-  console.log(`Starting pathfinding with Bellman-Ford algorithm`);
-  console.log(`Start node: ${startNode.osmid} (${startNode.lat}, ${startNode.lng})`);
-  console.log(`End node: ${endNode.osmid} (${endNode.lat}, ${endNode.lng})`);
-  console.log(`Graph size: ${graph.nodes.size} nodes, ${graph.edges.size} edge sets`);
-
-  const initialMemory = (typeof performance !== 'undefined' && 'memory' in performance)
-  ? performance.memory.usedJSHeapSize
-  : null;
-
+  sources: string[]
+): Promise<{ distances: Map<string, number>; previous: Map<string, string | null>; visitedIds: string[]; edgesExplored: number }> {
   const distances = new Map<string, number>();
   const previous = new Map<string, string | null>();
-  const visitedNodes: number[][] = [];
+  const visitedIds: string[] = [];
   const visited = new Set<string>();
   let edgesExplored = 0;
 
@@ -228,13 +201,16 @@ export async function bellmanFordPathfinding(
     distances.set(node, Infinity);
     previous.set(node, null);
   }
-  distances.set(startNode.osmid, 0);
-  visited.add(startNode.osmid);
-  visitedNodes.push([startNode.lng, startNode.lat]);
+  for (const source of sources) {
+    distances.set(source, 0);
+    visited.add(source);
+    visitedIds.push(source);
+  }
 
   // Relax edges |V|-1 times
   const V = graph.nodes.size;
   for (let i = 0; i < V - 1; i++) {
+    await checkpoint();
     let changesMade = false;
     for (const [source, edgeList] of graph.edges.entries()) {
       for (const edge of edgeList) {
@@ -244,8 +220,7 @@ export async function bellmanFordPathfinding(
           previous.set(edge.target, source);
           if (!visited.has(edge.target)) {
             visited.add(edge.target);
-            const targetNode = graph.nodes.get(edge.target)!;
-            visitedNodes.push([targetNode.lng, targetNode.lat]);
+            visitedIds.push(edge.target);
           }
           changesMade = true;
         }
@@ -265,6 +240,38 @@ export async function bellmanFordPathfinding(
     }
   }
 
+  return { distances, previous, visitedIds, edgesExplored };
+}
+
+// Bellman-Ford Implementation
+export async function bellmanFordPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<PathfindingResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const initialMemory = (typeof performance !== 'undefined' && 'memory' in performance)
+  ? performance.memory.usedJSHeapSize
+  : null;
+
+  const { distances, previous, visitedIds, edgesExplored } = await bellmanFordDistances(graph, [startNode.osmid]);
+  const visited = new Set(visitedIds);
+  const visitedNodes: number[][] = visitedIds.map((id) => {
+    const node = graph.nodes.get(id)!;
+    return [node.lng, node.lat];
+  });
+
   if (distances.get(endNode.osmid)! === Infinity) {
     throw new Error('No path found between start and end nodes.');
   }
@@ -286,7 +293,7 @@ export async function bellmanFordPathfinding(
     current = prev;
   }
 
-  const endTime = performance.now();
+  const endTime = busyClock();
   const executionTime = endTime - startTime;
 
   const finalMemory = (typeof performance !== 'undefined' && 'memory' in performance)
@@ -325,9 +332,10 @@ export async function dijkstraPathfinding(
   graph: Graph,
   start: { lat: number; lng: number },
   end: { lat: number; lng: number },
-  algorithm: string = 'dijkstra'
-): Promise<{ path: number[][]; distance: number; time: number; nodesVisited: number; visitedNodes: number[][]; edgesExplored: number; pathNodeCount: number }> {
-  const startTime = performance.now();
+  algorithm: string = 'dijkstra',
+  queue: QueueKind = DEFAULT_QUEUE
+): Promise<PathfindingResult> {
+  const startTime = busyClock();
 
   if (!graph || !graph.nodes || !graph.edges) {
     throw new Error('Invalid graph: nodes or edges are missing');
@@ -353,7 +361,7 @@ export async function dijkstraPathfinding(
   const previous = new Map<string, string | null>();
   const visited = new Set<string>();
   const visitedNodes: number[][] = [];
-  const pq = new PriorityQueue();
+  const pq = createQueue(queue);
   let edgesExplored = 0;
 
   const heuristic = (node: Node, endNode: Node): number => {
@@ -367,10 +375,11 @@ export async function dijkstraPathfinding(
   }
   distances.set(startNode.osmid, 0);
   fScores.set(startNode.osmid, algorithm === 'a-star' ? heuristic(startNode, endNode) : 0);
-  pq.enqueue(startNode.osmid, fScores.get(startNode.osmid)!);
+  pq.push(startNode.osmid, fScores.get(startNode.osmid)!);
 
   while (!pq.isEmpty()) {
-    const current = pq.dequeue();
+    await checkpoint();
+    const current = pq.pop();
     if (!current) break;
 
     if (visited.has(current)) continue;
@@ -392,7 +401,7 @@ export async function dijkstraPathfinding(
         previous.set(neighbor, current);
         const h = algorithm === 'a-star' ? heuristic(graph.nodes.get(neighbor)!, endNode) : 0;
         fScores.set(neighbor, newDist + h);
-        pq.enqueue(neighbor, fScores.get(neighbor)!);
+        pq.push(neighbor, fScores.get(neighbor)!);
       }
     }
   }
@@ -417,7 +426,7 @@ export async function dijkstraPathfinding(
     current = prev;
   }
 
-  const endTime = performance.now();
+  const endTime = busyClock();
   const executionTime = endTime - startTime;
 
   const finalMemory = (typeof performance !== 'undefined' && 'memory' in performance)
@@ -451,14 +460,197 @@ export async function dijkstraPathfinding(
   };
 }
 
+// Node-level Dijkstra between two node ids, used as a building block by algorithms
+// that run many searches (e.g. Yen's k-shortest paths). Excluded nodes and edges
+// (keyed `${source}->${target}`) are treated as absent.
+export async function shortestPathIds(
+  graph: Graph,
+  source: string,
+  target: string,
+  excludedNodes: Set<string> = new Set(),
+  excludedEdges: Set<string> = new Set()
+): Promise<{ nodeIds: string[]; cost: number; nodesVisited: number; edgesExplored: number } | null> {
+  const distances = new Map<string, number>([[source, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+  const heap = new IndexedHeap<number>((a, b) => a - b);
+  let edgesExplored = 0;
+  heap.push(source, 0);
+
+  while (!heap.isEmpty()) {
+    await checkpoint();
+    const { id: current, priority: distance } = heap.pop()!;
+    visited.add(current);
+    if (current === target) break;
+
+    const edges = graph.edges.get(current) || [];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      if (visited.has(edge.target) || excludedNodes.has(edge.target)) continue;
+      if (excludedEdges.has(`${current}->${edge.target}`)) continue;
+      const newDist = distance + edge.weight;
+      if (newDist < (distances.get(edge.target) ?? Infinity)) {
+        distances.set(edge.target, newDist);
+        previous.set(edge.target, current);
+        heap.push(edge.target, newDist);
+      }
+    }
+  }
+
+  if (!visited.has(target)) return null;
+
+  const nodeIds: string[] = [];
+  let current: string | undefined = target;
+  while (current !== undefined) {
+    nodeIds.unshift(current);
+    current = previous.get(current);
+  }
+  return { nodeIds, cost: distances.get(target)!, nodesVisited: visited.size, edgesExplored };
+}
+
+// Bidirectional Dijkstra and A* Implementation
+// Searches forward from the start and backward (over reversed edges) from the end.
+// visitedNodes entries carry a third element: 0 for the forward side, 1 for the backward side.
+export async function bidirectionalPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  algorithm: string = 'bidirectional-dijkstra',
+  queue: QueueKind = DEFAULT_QUEUE
+): Promise<PathfindingResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const useHeuristic = algorithm === 'bidirectional-a-star';
+
+  // Reverse adjacency for the backward search
+  const reverseEdges = new Map<string, Edge[]>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    for (const edge of edgeList) {
+      if (!reverseEdges.has(edge.target)) reverseEdges.set(edge.target, []);
+      reverseEdges.get(edge.target)!.push({ source: edge.target, target: source, weight: edge.weight });
+    }
+  }
+
+  const sides = [
+    { sign: 1, edges: graph.edges, distances: new Map<string, number>(), previous: new Map<string, string>(), visited: new Set<string>(), pq: createQueue(queue) },
+    { sign: -1, edges: reverseEdges, distances: new Map<string, number>(), previous: new Map<string, string>(), visited: new Set<string>(), pq: createQueue(queue) },
+  ];
+  const visitedNodes: number[][] = [];
+  let edgesExplored = 0;
+  let bestDistance = Infinity;
+  let meetingNode: string | null = null;
+
+  // Average potential (Ikeda et al.): the forward side uses p(v), the backward side -p(v),
+  // so both searches see the same reduced edge costs and the Dijkstra stopping rule holds
+  const potential = (node: Node): number => {
+    return useHeuristic ? (haversineDistance(node, endNode) - haversineDistance(node, startNode)) / 2 : 0;
+  };
+
+  sides[0].distances.set(startNode.osmid, 0);
+  sides[0].pq.push(startNode.osmid, potential(startNode));
+  sides[1].distances.set(endNode.osmid, 0);
+  sides[1].pq.push(endNode.osmid, -potential(endNode));
+
+  while (!sides[0].pq.isEmpty() && !sides[1].pq.isEmpty()) {
+    await checkpoint();
+    // Drop queue entries for nodes that were already settled
+    for (const side of sides) {
+      while (!side.pq.isEmpty() && side.visited.has(side.pq.peek()!)) {
+        side.pq.pop();
+      }
+    }
+    const forwardTop = sides[0].pq.peekPriority();
+    const backwardTop = sides[1].pq.peekPriority();
+
+    // Meeting criterion: no unexplored connection can beat the best one found so far
+    if (forwardTop + backwardTop >= bestDistance) break;
+
+    const sideIndex = forwardTop <= backwardTop ? 0 : 1;
+    const side = sides[sideIndex];
+    const other = sides[1 - sideIndex];
+
+    const current = side.pq.pop();
+    if (!current) break;
+    if (side.visited.has(current)) continue;
+    side.visited.add(current);
+
+    const node = graph.nodes.get(current)!;
+    visitedNodes.push([node.lng, node.lat, sideIndex]);
+
+    const settledOther = other.distances.get(current);
+    if (settledOther !== undefined && side.distances.get(current)! + settledOther < bestDistance) {
+      bestDistance = side.distances.get(current)! + settledOther;
+      meetingNode = current;
+    }
+
+    const edges = side.edges.get(current) || [];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      const neighbor = edge.target;
+      const newDist = side.distances.get(current)! + edge.weight;
+
+      if (newDist < (side.distances.get(neighbor) ?? Infinity)) {
+        side.distances.set(neighbor, newDist);
+        side.previous.set(neighbor, current);
+        side.pq.push(neighbor, newDist + side.sign * potential(graph.nodes.get(neighbor)!));
+      }
+
+      const otherDist = other.distances.get(neighbor);
+      if (otherDist !== undefined && newDist + otherDist < bestDistance) {
+        bestDistance = newDist + otherDist;
+        meetingNode = neighbor;
+      }
+    }
+  }
+
+  if (meetingNode === null) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  // Stitch the forward half (start -> meeting) and the backward half (meeting -> end)
+  const pathIds: string[] = [];
+  let current: string | undefined = meetingNode;
+  while (current !== undefined) {
+    pathIds.unshift(current);
+    current = sides[0].previous.get(current);
+  }
+  current = sides[1].previous.get(meetingNode);
+  while (current !== undefined) {
+    pathIds.push(current);
+    current = sides[1].previous.get(current);
+  }
+  const path = pathIds.map((id) => {
+    const node = graph.nodes.get(id)!;
+    return [node.lng, node.lat];
+  });
+  const totalDistance = bestDistance;
+  const nodesVisited = sides[0].visited.size + sides[1].visited.size;
+
+  const endTime = busyClock();
+  const executionTime = endTime - startTime;
+
+  return {
+    path,
+    distance: totalDistance / 1000,
+    time: executionTime,
+    nodesVisited,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+  };
+}
+
 export interface algorithm {
   id: string;
   name: string;
 }
-
-export const algorithms: algorithm[] = [
-  { id: 'dijkstra', name: 'Dijkstra' },
-{ id: 'a-star', name: 'A*' },
-{ id: 'gbfs', name: 'Greedy Best-First Search' },
-{ id: 'bellman-ford', name: 'Bellman-Ford' },
-];
@@ -0,0 +1,351 @@
+// utils/allPairs.ts
+// All-pairs shortest paths. Floyd–Warshall runs on a selected subgraph (it is
+// O(n³), so only practical for a few hundred nodes); Johnson's algorithm covers the
+// full graph with one Bellman-Ford pass for reweighting and one Dijkstra per node.
+// Both produce a distance matrix and a next-hop matrix, so any origin-destination
+// path can be read back afterwards without searching again.
+import {
+  Graph,
+  Node,
+  PathfindingResult,
+  bellmanFordDistances,
+  haversineDistance,
+} from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+import { spatialIndex } from './spatialIndex';
+
+export type AllPairsAlgorithm = 'floyd-warshall' | 'johnson';
+
+export const MAX_FLOYD_WARSHALL_NODES = 400;
+
+export interface AllPairsMatrix {
+  algorithm: AllPairsAlgorithm;
+  nodeIds: string[];
+  index: Map<string, number>;
+  distances: Float64Array; // meters, row-major n×n, Infinity when unreachable
+  next: Int32Array; // index of the first hop from row to column, -1 when unreachable
+  time: number; // milliseconds, summed over every run that worked on the matrix
+}
+
+// A matrix under construction. A timeout or cancel stops the build between steps
+// (source rows for Johnson, intermediate nodes for Floyd–Warshall); the steps below
+// `done` are finished and the next run carries on from there.
+export interface MatrixBuild {
+  matrix: AllPairsMatrix;
+  done: number;
+  potential?: Map<string, number>; // Johnson's Bellman-Ford potentials
+}
+
+export interface AllPairsResult extends PathfindingResult {
+  matrix: AllPairsMatrix;
+  preprocessingTime: number; // milliseconds spent building the matrix, even when reused
+  matrixSize: number;
+}
+
+// Called with a fraction between 0 and 1
+export type ProgressCallback = (progress: number) => void;
+
+const PROGRESS_STEPS = 20;
+
+// Nodes inside the circle whose diameter joins the two points, padded by `margin`
+// and capped at `limit` nodes nearest the centre
+export function selectSubgraphNodes(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  margin: number = 0.25,
+  limit: number = MAX_FLOYD_WARSHALL_NODES
+): string[] {
+  const center = { lat: (start.lat + end.lat) / 2, lng: (start.lng + end.lng) / 2 };
+  const radius = (haversineDistance(start, end) / 2) * (1 + margin);
+  return spatialIndex(graph.nodes)
+    .withinRadius(center, radius)
+    .slice(0, limit)
+    .map(({ node }) => node.osmid);
+}
+
+const createMatrix = (algorithm: AllPairsAlgorithm, nodeIds: string[]): AllPairsMatrix => {
+  const n = nodeIds.length;
+  const matrix: AllPairsMatrix = {
+    algorithm,
+    nodeIds,
+    index: new Map(nodeIds.map((id, i) => [id, i])),
+    distances: new Float64Array(n * n).fill(Infinity),
+    next: new Int32Array(n * n).fill(-1),
+    time: 0,
+  };
+  for (let i = 0; i < n; i++) {
+    matrix.distances[i * n + i] = 0;
+    matrix.next[i * n + i] = i;
+  }
+  return matrix;
+};
+
+// Floyd–Warshall on the subgraph induced by nodeIds, continuing `build` if given
+export async function floydWarshall(
+  graph: Graph,
+  nodeIds: string[],
+  onProgress?: ProgressCallback,
+  build: MatrixBuild = { matrix: createMatrix('floyd-warshall', nodeIds), done: 0 }
+): Promise<AllPairsMatrix> {
+  const startTime = busyClock();
+  const { matrix } = build;
+  const { index, distances: dist, next } = matrix;
+  const n = nodeIds.length;
+
+  try {
+    if (build.done === 0) {
+      for (let i = 0; i < n; i++) {
+        for (const edge of graph.edges.get(nodeIds[i]) || []) {
+          const j = index.get(edge.target);
+          if (j === undefined || j === i) continue;
+          if (edge.weight < dist[i * n + j]) {
+            dist[i * n + j] = edge.weight;
+            next[i * n + j] = j;
+          }
+        }
+      }
+    }
+
+    const reportEvery = Math.max(1, Math.ceil(n / PROGRESS_STEPS));
+    for (let k = build.done; k < n; k++) {
+      // Lets the UI thread render progress between chunks of the computation
+      await checkpoint();
+      for (let i = 0; i < n; i++) {
+        const ik = dist[i * n + k];
+        if (ik === Infinity) continue;
+        for (let j = 0; j < n; j++) {
+          const candidate = ik + dist[k * n + j];
+          if (candidate < dist[i * n + j]) {
+            dist[i * n + j] = candidate;
+            next[i * n + j] = next[i * n + k];
+          }
+        }
+      }
+      build.done = k + 1;
+      if ((k + 1) % reportEvery === 0 || k === n - 1) {
+        onProgress?.((k + 1) / n);
+      }
+    }
+  } finally {
+    matrix.time += busyClock() - startTime;
+  }
+  return matrix;
+}
+
+// Johnson's algorithm on the full graph, continuing `build` if given
+export async function johnson(
+  graph: Graph,
+  onProgress?: ProgressCallback,
+  build: MatrixBuild = { matrix: createMatrix('johnson', [...graph.nodes.keys()]), done: 0 }
+): Promise<AllPairsMatrix> {
+  const startTime = busyClock();
+  const { matrix } = build;
+  const { nodeIds, index, distances: dist, next } = matrix;
+  const n = nodeIds.length;
+
+  try {
+    // Potentials from a virtual source joined to every node; throws on negative cycles
+    if (!build.potential) {
+      build.potential = (await bellmanFordDistances(graph, nodeIds)).distances;
+    }
+    const potential = build.potential;
+    const h = (id: string) => potential.get(id) ?? 0;
+
+    const reportEvery = Math.max(1, Math.ceil(n / PROGRESS_STEPS));
+    for (let s = build.done; s < n; s++) {
+      await checkpoint();
+      const source = nodeIds[s];
+      const reduced = new Map<string, number>([[source, 0]]);
+      const previous = new Map<string, string>();
+      const settled: string[] = [];
+      const done = new Set<string>();
+      const heap = new IndexedHeap<number>((a, b) => a - b);
+      heap.push(source, 0);
+
+      while (!heap.isEmpty()) {
+        const { id: current, priority: distance } = heap.pop()!;
+        done.add(current);
+        settled.push(current);
+        for (const edge of graph.edges.get(current) || []) {
+          if (done.has(edge.target)) continue;
+          // Reweighted edges are non-negative, so Dijkstra is exact
+          const newDist = distance + edge.weight + h(current) - h(edge.target);
+          if (newDist < (reduced.get(edge.target) ?? Infinity)) {
+            reduced.set(edge.target, newDist);
+            previous.set(edge.target, current);
+            heap.push(edge.target, newDist);
+          }
+        }
+      }
+
+      // Settle order guarantees a node's predecessor already has its first hop
+      const row = s * n;
+      for (const id of settled) {
+        const t = index.get(id)!;
+        dist[row + t] = reduced.get(id)! - h(source) + h(id);
+        if (t === s) continue;
+        const prev = previous.get(id)!;
+        next[row + t] = prev === source ? t : next[row + index.get(prev)!];
+      }
+
+      build.done = s + 1;
+      if ((s + 1) % reportEvery === 0 || s === n - 1) {
+        onProgress?.((s + 1) / n);
+      }
+    }
+  } finally {
+    matrix.time += busyClock() - startTime;
+  }
+  return matrix;
+}
+
+// Reads an origin-destination path back from the next-hop matrix
+export function lookupPath(
+  matrix: AllPairsMatrix,
+  origin: string,
+  destination: string
+): { nodeIds: string[]; cost: number } | null {
+  const n = matrix.nodeIds.length;
+  const from = matrix.index.get(origin);
+  const to = matrix.index.get(destination);
+  if (from === undefined || to === undefined || matrix.next[from * n + to] === -1) return null;
+
+  const nodeIds = [origin];
+  let current = from;
+  while (current !== to) {
+    current = matrix.next[current * n + to];
+    nodeIds.push(matrix.nodeIds[current]);
+  }
+  return { nodeIds, cost: matrix.distances[from * n + to] };
+}
+
+const formatDistance = (meters: number): string => (meters === Infinity ? '' : meters.toFixed(1));
+
+// Distance matrix in meters with node ids as the header row and first column;
+// unreachable pairs are left empty
+export function matrixToCSV(matrix: AllPairsMatrix): string {
+  const n = matrix.nodeIds.length;
+  const lines = [['', ...matrix.nodeIds].join(',')];
+  for (let i = 0; i < n; i++) {
+    const row = [matrix.nodeIds[i]];
+    for (let j = 0; j < n; j++) row.push(formatDistance(matrix.distances[i * n + j]));
+    lines.push(row.join(','));
+  }
+  return lines.join('\n');
+}
+
+// Distances in meters and next hops as node ids; null marks unreachable pairs
+export function matrixToJSON(matrix: AllPairsMatrix): string {
+  const n = matrix.nodeIds.length;
+  const distances: (number | null)[][] = [];
+  const next: (string | null)[][] = [];
+  for (let i = 0; i < n; i++) {
+    const distanceRow: (number | null)[] = [];
+    const nextRow: (string | null)[] = [];
+    for (let j = 0; j < n; j++) {
+      const distance = matrix.distances[i * n + j];
+      const hop = matrix.next[i * n + j];
+      distanceRow.push(distance === Infinity ? null : Number(distance.toFixed(1)));
+      nextRow.push(hop === -1 ? null : matrix.nodeIds[hop]);
+    }
+    distances.push(distanceRow);
+    next.push(nextRow);
+  }
+  return JSON.stringify({ algorithm: matrix.algorithm, nodeIds: matrix.nodeIds, distances, next });
+}
+
+// Johnson covers the whole graph, so its matrix is reused until the graph changes;
+// Floyd–Warshall matrices are keyed by the subgraph they were built on. Builds are
+// kept from the start, so one that ran out of time is finished by the next run
+// instead of started over.
+const johnsonBuilds = new WeakMap<Graph, MatrixBuild>();
+const floydWarshallBuilds = new WeakMap<Graph, { key: string; build: MatrixBuild }>();
+
+export async function getAllPairsMatrix(
+  graph: Graph,
+  algorithm: AllPairsAlgorithm,
+  subgraph: string[],
+  onProgress?: ProgressCallback
+): Promise<AllPairsMatrix> {
+  if (algorithm === 'johnson') {
+    let build = johnsonBuilds.get(graph);
+    if (!build) {
+      build = { matrix: createMatrix('johnson', [...graph.nodes.keys()]), done: 0 };
+      johnsonBuilds.set(graph, build);
+    }
+    if (build.done < build.matrix.nodeIds.length) await johnson(graph, onProgress, build);
+    return build.matrix;
+  }
+
+  const key = [...subgraph].sort().join(',');
+  let entry = floydWarshallBuilds.get(graph);
+  if (!entry || entry.key !== key) {
+    entry = { key, build: { matrix: createMatrix('floyd-warshall', subgraph), done: 0 } };
+    floydWarshallBuilds.set(graph, entry);
+  }
+  const { build } = entry;
+  if (build.done < subgraph.length)
+    await floydWarshall(graph, build.matrix.nodeIds, onProgress, build);
+  return build.matrix;
+}
+
+const nearestIn = (
+  graph: Graph,
+  nodeIds: string[],
+  point: { lat: number; lng: number }
+): Node | null => {
+  const candidates = new Set(nodeIds);
+  return spatialIndex(graph.nodes).nearest(point, Infinity, (node) => candidates.has(node.osmid));
+};
+
+// All-pairs Implementation: builds (or reuses) the matrix, then answers the query by lookup
+export async function allPairsPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  algorithm: AllPairsAlgorithm,
+  onProgress?: ProgressCallback
+): Promise<AllPairsResult> {
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const subgraph = algorithm === 'johnson' ? [] : selectSubgraphNodes(graph, start, end);
+  const matrix = await getAllPairsMatrix(graph, algorithm, subgraph, onProgress);
+
+  const startTime = busyClock();
+  const startNode = nearestIn(graph, matrix.nodeIds, start);
+  const endNode = nearestIn(graph, matrix.nodeIds, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const route = lookupPath(matrix, startNode.osmid, endNode.osmid);
+  if (!route) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  const path = route.nodeIds.map((id) => {
+    const node = graph.nodes.get(id)!;
+    return [node.lng, node.lat];
+  });
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: route.cost / 1000,
+    time: executionTime,
+    nodesVisited: matrix.nodeIds.length,
+    visitedNodes: matrix.nodeIds.map((id) => {
+      const node = graph.nodes.get(id)!;
+      return [node.lng, node.lat];
+    }),
+    edgesExplored: 0,
+    pathNodeCount: path.length,
+    matrix,
+    preprocessingTime: matrix.time,
+    matrixSize: matrix.nodeIds.length,
+  };
+}
@@ -0,0 +1,337 @@
+// utils/alt.ts
+// ALT: A* with Landmarks and the Triangle inequality (Goldberg & Harrelson, 2005).
+// Shortest-path distances to and from a few landmarks are precomputed once; during a
+// query |d(L, t) - d(L, v)| style bounds replace the straight-line heuristic.
+import { Edge, Graph, PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+export type LandmarkStrategy = 'random' | 'farthest' | 'planar' | 'avoid';
+
+export const landmarkStrategies: { id: LandmarkStrategy; name: string }[] = [
+  { id: 'random', name: 'Random' },
+  { id: 'farthest', name: 'Farthest' },
+  { id: 'planar', name: 'Planar' },
+  { id: 'avoid', name: 'Avoid' },
+];
+
+export const DEFAULT_LANDMARK_COUNT = 8;
+
+export interface LandmarkData {
+  strategy: LandmarkStrategy;
+  landmarks: string[];
+  fromLandmark: Map<string, number>[]; // d(L, v)
+  toLandmark: Map<string, number>[]; // d(v, L)
+  preprocessingTime: number; // milliseconds
+}
+
+export interface AltResult extends PathfindingResult {
+  landmarks: number[][];
+  landmarkStrategy: LandmarkStrategy;
+  preprocessingTime: number; // milliseconds
+}
+
+const compareNumbers = (a: number, b: number): number => (a < b ? -1 : a > b ? 1 : 0);
+
+// Small seeded generator so random landmark sets are repeatable between runs
+const seededRandom = (seed: number) => () => {
+  seed = (seed + 0x6d2b79f5) | 0;
+  let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+  t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+  return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+};
+
+const reverseAdjacency = (graph: Graph): Map<string, Edge[]> => {
+  const reverse = new Map<string, Edge[]>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    for (const edge of edgeList) {
+      if (!reverse.has(edge.target)) reverse.set(edge.target, []);
+      reverse.get(edge.target)!.push({ source: edge.target, target: source, weight: edge.weight });
+    }
+  }
+  return reverse;
+};
+
+// Full single-source Dijkstra; also returns the shortest-path tree
+const shortestPathTree = async (
+  edges: Map<string, Edge[]>,
+  source: string
+): Promise<{ distances: Map<string, number>; parents: Map<string, string> }> => {
+  const distances = new Map<string, number>([[source, 0]]);
+  const parents = new Map<string, string>();
+  const heap = new IndexedHeap<number>(compareNumbers);
+  heap.push(source, 0);
+  while (!heap.isEmpty()) {
+    await checkpoint();
+    const { id, priority } = heap.pop()!;
+    for (const edge of edges.get(id) || []) {
+      const newDist = priority + edge.weight;
+      if (newDist < (distances.get(edge.target) ?? Infinity)) {
+        distances.set(edge.target, newDist);
+        parents.set(edge.target, id);
+        heap.push(edge.target, newDist);
+      }
+    }
+  }
+  return { distances, parents };
+};
+
+// Triangle-inequality lower bound on d(v, t) from every landmark
+const landmarkBound = (data: LandmarkData, v: string, t: string): number => {
+  let bound = 0;
+  for (let i = 0; i < data.landmarks.length; i++) {
+    const fromV = data.fromLandmark[i].get(v) ?? Infinity;
+    const fromT = data.fromLandmark[i].get(t) ?? Infinity;
+    const toV = data.toLandmark[i].get(v) ?? Infinity;
+    const toT = data.toLandmark[i].get(t) ?? Infinity;
+    const forward = fromT - fromV; // d(L,t) - d(L,v)
+    const backward = toV - toT; // d(v,L) - d(t,L)
+    if (forward > bound) bound = forward;
+    if (backward > bound) bound = backward;
+  }
+  return bound;
+};
+
+const selectRandom = (candidates: string[], count: number): string[] => {
+  const random = seededRandom(candidates.length);
+  const pool = [...candidates];
+  const selected: string[] = [];
+  while (selected.length < count && pool.length > 0) {
+    const index = Math.floor(random() * pool.length);
+    selected.push(pool.splice(index, 1)[0]);
+  }
+  return selected;
+};
+
+// Splits the map into equal angular sectors around its centre and takes the node
+// farthest from the centre in each one
+const selectPlanar = (graph: Graph, candidates: string[], count: number): string[] => {
+  let lat = 0;
+  let lng = 0;
+  for (const id of candidates) {
+    const node = graph.nodes.get(id)!;
+    lat += node.lat;
+    lng += node.lng;
+  }
+  const center = { lat: lat / candidates.length, lng: lng / candidates.length };
+
+  const best: { id: string; distance: number }[] = [];
+  for (const id of candidates) {
+    const node = graph.nodes.get(id)!;
+    const angle = Math.atan2(node.lat - center.lat, node.lng - center.lng) + Math.PI;
+    const sector = Math.min(count - 1, Math.floor((angle / (2 * Math.PI)) * count));
+    const distance = haversineDistance(center, node);
+    if (!best[sector] || distance > best[sector].distance) best[sector] = { id, distance };
+  }
+  return best.filter(Boolean).map((entry) => entry.id);
+};
+
+export async function selectLandmarks(
+  graph: Graph,
+  strategy: LandmarkStrategy,
+  count: number = DEFAULT_LANDMARK_COUNT
+): Promise<LandmarkData> {
+  const startTime = busyClock();
+  const candidates = [...graph.edges.keys()].filter((id) => graph.nodes.has(id));
+  if (candidates.length === 0) {
+    throw new Error('Cannot select landmarks on an empty graph');
+  }
+  const reverse = reverseAdjacency(graph);
+
+  const data: LandmarkData = {
+    strategy,
+    landmarks: [],
+    fromLandmark: [],
+    toLandmark: [],
+    preprocessingTime: 0,
+  };
+  const addLandmark = async (id: string) => {
+    data.landmarks.push(id);
+    data.fromLandmark.push((await shortestPathTree(graph.edges, id)).distances);
+    data.toLandmark.push((await shortestPathTree(reverse, id)).distances);
+  };
+
+  if (strategy === 'random') {
+    for (const id of selectRandom(candidates, count)) await addLandmark(id);
+  } else if (strategy === 'planar') {
+    for (const id of selectPlanar(graph, candidates, count)) await addLandmark(id);
+  } else if (strategy === 'farthest') {
+    // Start from a random node, then repeatedly add the reachable node farthest from all chosen ones
+    const first = selectRandom(candidates, 1)[0];
+    const seedDistances = (await shortestPathTree(graph.edges, first)).distances;
+    let farthest = first;
+    for (const [id, distance] of seedDistances) {
+      if (distance > (seedDistances.get(farthest) ?? 0)) farthest = id;
+    }
+    await addLandmark(farthest);
+    while (data.landmarks.length < Math.min(count, candidates.length)) {
+      let next: string | null = null;
+      let nextDistance = -1;
+      for (const id of candidates) {
+        let nearest = Infinity;
+        for (const distances of data.fromLandmark) {
+          nearest = Math.min(nearest, distances.get(id) ?? Infinity);
+        }
+        if (nearest !== Infinity && nearest > nextDistance) {
+          nextDistance = nearest;
+          next = id;
+        }
+      }
+      if (next === null || nextDistance === 0) break;
+      await addLandmark(next);
+    }
+  } else {
+    // Avoid: grow a shortest-path tree from a random root and descend into the subtree
+    // whose nodes the current landmarks bound worst, ending at one of its leaves
+    const random = seededRandom(candidates.length + 1);
+    await addLandmark(selectRandom(candidates, 1)[0]);
+    while (data.landmarks.length < Math.min(count, candidates.length)) {
+      const root = candidates[Math.floor(random() * candidates.length)];
+      const { distances, parents } = await shortestPathTree(graph.edges, root);
+      const children = new Map<string, string[]>();
+      for (const [child, parent] of parents) {
+        if (!children.has(parent)) children.set(parent, []);
+        children.get(parent)!.push(child);
+      }
+
+      // Post-order subtree sizes; subtrees that contain a landmark count as zero
+      const size = new Map<string, number>();
+      const order: string[] = [];
+      const stack = [root];
+      while (stack.length > 0) {
+        const id = stack.pop()!;
+        order.push(id);
+        stack.push(...(children.get(id) || []));
+      }
+      const chosen = new Set(data.landmarks);
+      for (let i = order.length - 1; i >= 0; i--) {
+        const id = order[i];
+        const weight = distances.get(id)! - landmarkBound(data, root, id);
+        let total = weight;
+        let blocked = chosen.has(id);
+        for (const child of children.get(id) || []) {
+          const childSize = size.get(child)!;
+          if (childSize < 0) blocked = true;
+          else total += childSize;
+        }
+        size.set(id, blocked ? -1 : total);
+      }
+
+      let current = root;
+      while ((children.get(current) || []).length > 0) {
+        let bestChild: string | null = null;
+        for (const child of children.get(current)!) {
+          if (size.get(child)! > (bestChild === null ? 0 : size.get(bestChild)!)) bestChild = child;
+        }
+        if (bestChild === null) break;
+        current = bestChild;
+      }
+      if (chosen.has(current) || size.get(current)! <= 0) break;
+      await addLandmark(current);
+    }
+  }
+
+  data.preprocessingTime = busyClock() - startTime;
+  return data;
+}
+
+// Landmark tables per loaded graph and strategy
+const landmarkCache = new WeakMap<Graph, Map<string, LandmarkData>>();
+
+// Only finished tables are cached, so a selection cut short by a cancel starts over
+export async function getLandmarks(
+  graph: Graph,
+  strategy: LandmarkStrategy,
+  count: number = DEFAULT_LANDMARK_COUNT
+): Promise<LandmarkData> {
+  if (!landmarkCache.has(graph)) landmarkCache.set(graph, new Map());
+  const cache = landmarkCache.get(graph)!;
+  const key = `${strategy}:${count}`;
+  if (!cache.has(key)) cache.set(key, await selectLandmarks(graph, strategy, count));
+  return cache.get(key)!;
+}
+
+// ALT Implementation
+export async function altPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  strategy: LandmarkStrategy = 'farthest'
+): Promise<AltResult> {
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const data = await getLandmarks(graph, strategy);
+
+  const startTime = busyClock();
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const distances = new Map<string, number>([[startNode.osmid, 0]]);
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+  const visitedNodes: number[][] = [];
+  const heap = new IndexedHeap<number>(compareNumbers);
+  let edgesExplored = 0;
+
+  heap.push(startNode.osmid, landmarkBound(data, startNode.osmid, endNode.osmid));
+
+  while (!heap.isEmpty()) {
+    await checkpoint();
+    const { id: current } = heap.pop()!;
+    visited.add(current);
+
+    const node = graph.nodes.get(current)!;
+    visitedNodes.push([node.lng, node.lat]);
+
+    if (current === endNode.osmid) break;
+
+    const edges = graph.edges.get(current) || [];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      if (visited.has(edge.target)) continue;
+      const newDist = distances.get(current)! + edge.weight;
+      if (newDist < (distances.get(edge.target) ?? Infinity)) {
+        distances.set(edge.target, newDist);
+        previous.set(edge.target, current);
+        heap.push(edge.target, newDist + landmarkBound(data, edge.target, endNode.osmid));
+      }
+    }
+  }
+
+  if (!visited.has(endNode.osmid)) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  const path: number[][] = [];
+  let current: string | undefined = endNode.osmid;
+  while (current !== undefined) {
+    const node = graph.nodes.get(current)!;
+    path.unshift([node.lng, node.lat]);
+    current = previous.get(current);
+  }
+  const totalDistance = distances.get(endNode.osmid)!;
+
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: totalDistance / 1000,
+    time: executionTime,
+    nodesVisited: visited.size,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+    landmarks: data.landmarks.map((id) => {
+      const node = graph.nodes.get(id)!;
+      return [node.lng, node.lat];
+    }),
+    landmarkStrategy: strategy,
+    preprocessingTime: data.preprocessingTime,
+  };
+}
@@ -0,0 +1,187 @@
+// utils/araStar.ts
+// Weighted A* and Anytime Repairing A* (Likhachev, Gordon & Thrun, 2003).
+// Inflating the heuristic by epsilon finds a path quickly whose cost is at most
+// epsilon times optimal. ARA* then lowers epsilon step by step, reusing the previous
+// search instead of starting over, until the path is provably optimal.
+import { Graph, Node, PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+export const DEFAULT_EPSILON = 2.5;
+export const MIN_EPSILON = 1;
+export const MAX_EPSILON = 5;
+export const EPSILON_STEP = 0.5;
+
+export interface AnytimeSolution {
+  epsilon: number;
+  bound: number; // proven suboptimality bound: cost <= bound * optimal
+  distance: number; // kilometers
+  time: number; // milliseconds since the search started
+  nodesVisited: number;
+  path: number[][];
+}
+
+export interface AnytimeResult extends PathfindingResult {
+  epsilon: number;
+  bound: number;
+  solutions: AnytimeSolution[];
+}
+
+const compareNumbers = (a: number, b: number): number => (a < b ? -1 : a > b ? 1 : 0);
+
+async function runAnytimeSearch(
+  name: string,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  initialEpsilon: number,
+  finalEpsilon: number,
+  step: number,
+  onSolution?: (solution: AnytimeSolution) => void
+): Promise<AnytimeResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const goal = endNode.osmid;
+  const heuristic = (node: Node): number => haversineDistance(node, endNode);
+  const h = (id: string) => heuristic(graph.nodes.get(id)!);
+  const g = new Map<string, number>([[startNode.osmid, 0]]);
+  const previous = new Map<string, string>();
+  const open = new IndexedHeap<number>(compareNumbers);
+  let closed = new Set<string>();
+  let incons = new Set<string>();
+  const everVisited = new Set<string>();
+  const visitedNodes: number[][] = [];
+  let nodesVisited = 0;
+  let edgesExplored = 0;
+  let epsilon = Math.max(initialEpsilon, finalEpsilon);
+
+  const getG = (id: string) => g.get(id) ?? Infinity;
+  const fValue = (id: string) => getG(id) + epsilon * h(id);
+
+  open.push(startNode.osmid, fValue(startNode.osmid));
+
+  const improvePath = async () => {
+    while (!open.isEmpty() && open.peek()!.priority < getG(goal)) {
+      await checkpoint();
+      const { id: current } = open.pop()!;
+      closed.add(current);
+      nodesVisited++;
+      if (!everVisited.has(current)) {
+        everVisited.add(current);
+        const node = graph.nodes.get(current)!;
+        visitedNodes.push([node.lng, node.lat]);
+      }
+
+      const edges = graph.edges.get(current) || [];
+      edgesExplored += edges.length;
+      for (const edge of edges) {
+        const newDist = getG(current) + edge.weight;
+        if (newDist < getG(edge.target)) {
+          g.set(edge.target, newDist);
+          previous.set(edge.target, current);
+          if (closed.has(edge.target)) incons.add(edge.target);
+          else open.push(edge.target, fValue(edge.target));
+        }
+      }
+    }
+  };
+
+  // epsilon' = min(epsilon, g(goal) / min over OPEN and INCONS of g + h)
+  const provenBound = (): number => {
+    let lowest = Infinity;
+    for (const id of [...open.ids(), ...incons]) lowest = Math.min(lowest, getG(id) + h(id));
+    if (lowest === Infinity) return 1;
+    return Math.max(1, Math.min(epsilon, getG(goal) / lowest));
+  };
+
+  const toCoordinates = (): number[][] => {
+    const path: number[][] = [];
+    let current: string | undefined = goal;
+    while (current !== undefined) {
+      const node = graph.nodes.get(current)!;
+      path.unshift([node.lng, node.lat]);
+      current = previous.get(current);
+    }
+    return path;
+  };
+
+  const solutions: AnytimeSolution[] = [];
+  const publish = () => {
+    const solution: AnytimeSolution = {
+      epsilon,
+      bound: provenBound(),
+      distance: getG(goal) / 1000,
+      time: busyClock() - startTime,
+      nodesVisited,
+      path: toCoordinates(),
+    };
+    solutions.push(solution);
+    onSolution?.(solution);
+  };
+
+  await improvePath();
+  if (getG(goal) === Infinity) {
+    throw new Error('No path found between start and end nodes.');
+  }
+  publish();
+
+  while (solutions[solutions.length - 1].bound > finalEpsilon && epsilon > finalEpsilon) {
+    epsilon = Math.max(finalEpsilon, epsilon - step);
+    // Move INCONS into OPEN, re-key OPEN for the new epsilon and start a fresh CLOSED set
+    const reopen = [...open.ids(), ...incons];
+    open.clear();
+    for (const id of reopen) open.push(id, fValue(id));
+    incons = new Set();
+    closed = new Set();
+    await improvePath();
+    publish();
+  }
+
+  const best = solutions[solutions.length - 1];
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path: best.path,
+    distance: best.distance,
+    time: executionTime,
+    nodesVisited,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: best.path.length,
+    epsilon: best.epsilon,
+    bound: best.bound,
+    solutions,
+  };
+}
+
+// Weighted A* Implementation (f = g + epsilon * h, single pass)
+export async function weightedAStarPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  epsilon: number = DEFAULT_EPSILON
+): Promise<AnytimeResult> {
+  return runAnytimeSearch('Weighted A*', graph, start, end, epsilon, epsilon, 0);
+}
+
+// ARA* Implementation
+export async function araStarPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  epsilon: number = DEFAULT_EPSILON,
+  step: number = EPSILON_STEP,
+  onSolution?: (solution: AnytimeSolution) => void
+): Promise<AnytimeResult> {
+  return runAnytimeSearch('ARA*', graph, start, end, epsilon, MIN_EPSILON, step, onSolution);
+}
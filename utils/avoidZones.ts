@@ -0,0 +1,239 @@
+// utils/avoidZones.ts
+// Areas to avoid, such as flood-prone barangays. A zone is a polygon drawn on the
+// map or imported from GeoJSON. Every edge whose street shape touches an
+// enabled zone is removed, or has its cost multiplied, before pathfinding. Zones
+// are kept in AsyncStorage so they survive restarts.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { WeightedEdge, WeightedGraph } from './weighting';
+
+const STORAGE_KEY = 'avoid-zones';
+const STORAGE_VERSION = 1;
+
+export interface AvoidZone {
+  id: string;
+  name: string;
+  ring: number[][]; // [lng, lat] vertices of the outer boundary, not repeated at the end
+  penalty: number; // cost multiplier; Infinity removes the edges
+  enabled: boolean;
+}
+
+export const zonePenalties: { id: string; name: string; penalty: number }[] = [
+  { id: 'avoid', name: 'Avoid', penalty: Infinity },
+  { id: 'x3', name: '×3', penalty: 3 },
+  { id: 'x10', name: '×10', penalty: 10 },
+];
+
+type Point = number[]; // [lng, lat]
+
+// Ray casting; lng/lat are treated as planar, which is fine at city scale
+const pointInRing = ([x, y]: Point, ring: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) inside = !inside;
+  }
+  return inside;
+};
+
+const cross = (o: Point, a: Point, b: Point) =>
+  (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+const segmentsIntersect = (p1: Point, p2: Point, q1: Point, q2: Point): boolean => {
+  const d1 = cross(q1, q2, p1);
+  const d2 = cross(q1, q2, p2);
+  const d3 = cross(p1, p2, q1);
+  const d4 = cross(p1, p2, q2);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+};
+
+export function segmentTouchesZone(a: Point, b: Point, ring: Point[]): boolean {
+  if (pointInRing(a, ring) || pointInRing(b, ring)) return true;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    if (segmentsIntersect(a, b, ring[j], ring[i])) return true;
+  }
+  return false;
+}
+
+const bounds = (ring: Point[]) => {
+  const lngs = ring.map(([lng]) => lng);
+  const lats = ring.map(([, lat]) => lat);
+  return {
+    minLng: Math.min(...lngs),
+    maxLng: Math.max(...lngs),
+    minLat: Math.min(...lats),
+    maxLat: Math.max(...lats),
+  };
+};
+
+const newZoneId = () => `zone-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const createZone = (ring: Point[], penalty: number, name: string): AvoidZone => ({
+  id: newZoneId(),
+  name,
+  ring,
+  penalty,
+  enabled: true,
+});
+
+// GeoJSON closes rings by repeating the first vertex; zones store it once
+const openRing = (ring: Point[]): Point[] => {
+  const [first, last] = [ring[0], ring[ring.length - 1]];
+  return ring.length > 1 && first[0] === last[0] && first[1] === last[1] ? ring.slice(0, -1) : ring;
+};
+
+const parsePenalty = (value: unknown): number => {
+  if (typeof value === 'number' && value > 1) return value;
+  if (typeof value === 'string' && parseFloat(value) > 1) return parseFloat(value);
+  return Infinity;
+};
+
+// Polygon and MultiPolygon geometries from a Feature, FeatureCollection or bare
+// geometry. `properties.name` names the zone and a numeric `properties.penalty`
+// makes it a penalty zone instead of one to avoid. Holes are ignored.
+export function parseZonesGeoJSON(text: string): AvoidZone[] {
+  let data: any;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('Zones must be valid GeoJSON.');
+  }
+
+  const features: any[] =
+    data?.type === 'FeatureCollection'
+      ? data.features || []
+      : data?.type === 'Feature'
+        ? [data]
+        : [{ geometry: data }];
+  const zones: AvoidZone[] = [];
+  features.forEach((feature, index) => {
+    const geometry = feature?.geometry;
+    const polygons: Point[][][] =
+      geometry?.type === 'Polygon'
+        ? [geometry.coordinates]
+        : geometry?.type === 'MultiPolygon'
+          ? geometry.coordinates
+          : [];
+    polygons.forEach((polygon, part) => {
+      const ring = openRing(polygon[0] || []);
+      if (ring.length < 3) return;
+      const name = feature.properties?.name || `Imported zone ${index + 1}`;
+      zones.push(
+        createZone(
+          ring,
+          parsePenalty(feature.properties?.penalty),
+          polygons.length > 1 ? `${name} (${part + 1})` : name
+        )
+      );
+    });
+  });
+
+  if (zones.length === 0) {
+    throw new Error('No polygons found in the GeoJSON.');
+  }
+  return zones;
+}
+
+// Storage cannot hold Infinity, so avoid zones are saved with a null penalty
+export async function saveZones(zones: AvoidZone[]): Promise<void> {
+  const serialized = {
+    version: STORAGE_VERSION,
+    zones: zones.map((zone) => ({
+      ...zone,
+      penalty: zone.penalty === Infinity ? null : zone.penalty,
+    })),
+  };
+  await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(serialized));
+}
+
+export async function loadZones(): Promise<AvoidZone[]> {
+  const raw = await AsyncStorage.getItem(STORAGE_KEY);
+  if (!raw) return [];
+  try {
+    const serialized = JSON.parse(raw);
+    if (serialized.version !== STORAGE_VERSION) return [];
+    return serialized.zones.map((zone: any) => ({ ...zone, penalty: zone.penalty ?? Infinity }));
+  } catch {
+    console.warn('Discarding unreadable avoid zones from storage');
+    return [];
+  }
+}
+
+export const zonesSignature = (zones: AvoidZone[]): string =>
+  zones
+    .filter((zone) => zone.enabled)
+    .map((zone) => `${zone.id}:${zone.penalty}`)
+    .join(',');
+
+// FeatureCollection for the map's fill layer
+export const zonesToGeoJSON = (zones: AvoidZone[]) => ({
+  type: 'FeatureCollection' as const,
+  features: zones.map((zone) => ({
+    type: 'Feature' as const,
+    properties: {
+      id: zone.id,
+      name: zone.name,
+      avoid: zone.penalty === Infinity ? 1 : 0,
+      enabled: zone.enabled ? 1 : 0,
+    },
+    geometry: { type: 'Polygon' as const, coordinates: [[...zone.ring, zone.ring[0]]] },
+  })),
+});
+
+const zonedGraphs = new WeakMap<WeightedGraph, { signature: string; graph: WeightedGraph }>();
+
+export function applyZones(graph: WeightedGraph, zones: AvoidZone[]): WeightedGraph {
+  const active = zones.filter((zone) => zone.enabled);
+  if (active.length === 0) return graph;
+  const signature = zonesSignature(active);
+  const cached = zonedGraphs.get(graph);
+  if (cached && cached.signature === signature) return cached.graph;
+
+  const boxes = active.map((zone) => bounds(zone.ring));
+  // Largest penalty of the zones a line touches; Infinity wins
+  const penaltyFor = (line: Point[]): number | undefined => {
+    let penalty: number | undefined;
+    active.forEach((zone, i) => {
+      const box = boxes[i];
+      for (let j = 1; j < line.length; j++) {
+        const [a, b] = [line[j - 1], line[j]];
+        if (Math.max(a[0], b[0]) < box.minLng || Math.min(a[0], b[0]) > box.maxLng) continue;
+        if (Math.max(a[1], b[1]) < box.minLat || Math.min(a[1], b[1]) > box.maxLat) continue;
+        if (segmentTouchesZone(a, b, zone.ring)) {
+          penalty = Math.max(penalty ?? 0, zone.penalty);
+          return;
+        }
+      }
+    });
+    return penalty;
+  };
+
+  const edges = new Map<string, WeightedEdge[]>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    const from = graph.nodes.get(source);
+    const kept: WeightedEdge[] = [];
+    for (const edge of edgeList) {
+      const to = graph.nodes.get(edge.target);
+      const line =
+        edge.geometry ||
+        (from && to
+          ? [
+              [from.lng, from.lat],
+              [to.lng, to.lat],
+            ]
+          : undefined);
+      const penalty = line ? penaltyFor(line) : undefined;
+      if (penalty === undefined) {
+        kept.push(edge);
+      } else if (penalty !== Infinity) {
+        kept.push({ ...edge, weight: edge.weight * penalty, duration: edge.duration * penalty });
+      }
+    }
+    edges.set(source, kept);
+  }
+
+  const result = { ...graph, edges };
+  zonedGraphs.set(graph, { signature, graph: result });
+  return result;
+}
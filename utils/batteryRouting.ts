@@ -0,0 +1,273 @@
+// utils/batteryRouting.ts
+// Battery-constrained routing for e-trikes: a resource-constrained shortest path
+// search. A label is (node, travel time so far, charge left). The search never lets
+// the charge drop below the reserve, and at a charging station it may stop and
+// charge to any 10% step, paying the charge time. Labels at a node are kept only
+// while they carry more charge than every cheaper label settled there (Pareto
+// dominance on time and charge). The cost is always travel time plus charge time,
+// with A* guided by the straight-line time at the graph's fastest speed.
+import { PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { chargingStationsGeoJSON } from './chargingStations';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+import { WeightedEdge, WeightedGraph } from './weighting';
+
+export interface EnergyModel {
+  capacity: number; // Wh
+  consumption: number; // Wh per km on a paved main road
+  classFactors: Record<string, number>; // consumption multipliers per highway class
+  reserve: number; // fraction of capacity the route may not use
+}
+
+// Side streets mean more stopping and starting, tracks are unpaved
+export const defaultEnergyModel: EnergyModel = {
+  capacity: 4000,
+  consumption: 80,
+  classFactors: {
+    primary: 1,
+    secondary: 1,
+    tertiary: 1.05,
+    unclassified: 1.1,
+    residential: 1.1,
+    living_street: 1.15,
+    service: 1.15,
+    track: 1.4,
+  },
+  reserve: 0.1,
+};
+
+export const startingCharges = [10, 20, 40, 60, 80, 100]; // percent
+export const DEFAULT_STARTING_CHARGE = 40;
+
+const CHARGE_STEP = 0.1; // charging stops end on multiples of 10%
+const TAPER_LEVEL = 0.8; // chargers halve their output above 80%
+const RESOLUTION = 0.005; // labels within 0.5% of capacity count as equal charge
+
+export interface ChargingStation {
+  id: string;
+  name: string;
+  nodeId: string;
+  power: number; // W
+}
+
+export interface ChargingStop {
+  name: string;
+  coordinates: number[]; // [lng, lat]
+  from: number; // percent
+  to: number; // percent
+  time: number; // seconds
+}
+
+export interface BatteryResult extends PathfindingResult {
+  stateOfCharge: number[]; // percent on arrival at each path vertex
+  chargingStops: ChargingStop[];
+  chargeTime: number; // seconds
+  energyUsed: number; // Wh
+}
+
+export const edgeEnergy = (edge: WeightedEdge, model: EnergyModel = defaultEnergyModel): number =>
+  (edge.length / 1000) *
+  model.consumption *
+  ((edge.highway !== undefined && model.classFactors[edge.highway]) || 1);
+
+// Seconds to charge from one level to another, in Wh
+export const chargeTime = (
+  from: number,
+  to: number,
+  power: number,
+  model: EnergyModel = defaultEnergyModel
+): number => {
+  const taper = TAPER_LEVEL * model.capacity;
+  const fast = Math.max(0, Math.min(to, taper) - from);
+  const slow = Math.max(0, to - Math.max(from, taper));
+  return ((fast + slow * 2) / power) * 3600;
+};
+
+const stationIndexes = new WeakMap<WeightedGraph, Map<string, ChargingStation>>();
+
+// Stations by graph node. A station whose node is not in this graph (for example
+// one the vehicle profile filtered out) moves to the nearest remaining node.
+export function chargingStations(graph: WeightedGraph): Map<string, ChargingStation> {
+  const cached = stationIndexes.get(graph);
+  if (cached) return cached;
+
+  const stations = new Map<string, ChargingStation>();
+  for (const feature of chargingStationsGeoJSON.features) {
+    const { station_id, name, power_kw, node_id } = feature.properties;
+    const [lng, lat] = feature.geometry.coordinates;
+    const nodeId = graph.nodes.has(node_id)
+      ? node_id
+      : findNearestNode(graph.nodes, { lat, lng })?.osmid;
+    if (nodeId === undefined) continue;
+    stations.set(nodeId, { id: station_id, name, nodeId, power: power_kw * 1000 });
+  }
+  stationIndexes.set(graph, stations);
+  return stations;
+}
+
+interface Label {
+  node: string;
+  cost: number; // seconds
+  charge: number; // Wh
+  parent: number; // index into labels, -1 at the start
+  charged: boolean; // created by charging at `node`
+}
+
+export async function batteryPathfinding(
+  graph: WeightedGraph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  startingCharge: number = DEFAULT_STARTING_CHARGE,
+  model: EnergyModel = defaultEnergyModel
+): Promise<BatteryResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const stations = chargingStations(graph);
+  const reserve = model.reserve * model.capacity;
+  const tolerance = RESOLUTION * model.capacity;
+  const heuristic = (nodeId: string) =>
+    haversineDistance(graph.nodes.get(nodeId)!, endNode) / graph.referenceSpeed;
+
+  const labels: Label[] = [];
+  const settledCharge = new Map<string, number>(); // most charge settled at each node
+  const heap = new IndexedHeap<number>((a, b) => a - b);
+  const visitedNodes: number[][] = [];
+  let edgesExplored = 0;
+  let labelsSettled = 0;
+  let goal = -1;
+
+  const isDominated = (node: string, charge: number) =>
+    (settledCharge.get(node) ?? -Infinity) >= charge - tolerance;
+
+  const addLabel = (label: Label) => {
+    if (isDominated(label.node, label.charge)) return;
+    labels.push(label);
+    heap.push(String(labels.length - 1), label.cost + heuristic(label.node));
+  };
+
+  addLabel({
+    node: startNode.osmid,
+    cost: 0,
+    charge: (startingCharge / 100) * model.capacity,
+    parent: -1,
+    charged: false,
+  });
+
+  while (!heap.isEmpty()) {
+    await checkpoint();
+    const index = Number(heap.pop()!.id);
+    const label = labels[index];
+    if (isDominated(label.node, label.charge)) continue;
+
+    if (!settledCharge.has(label.node)) {
+      const node = graph.nodes.get(label.node)!;
+      visitedNodes.push([node.lng, node.lat]);
+    }
+    settledCharge.set(label.node, label.charge);
+    labelsSettled++;
+
+    if (label.node === endNode.osmid) {
+      goal = index;
+      break;
+    }
+
+    // One stop per visit: charging 27% → 30% → 40% costs the same as 27% → 40%
+    const station = stations.get(label.node);
+    if (station && !label.charged) {
+      let level = Math.floor(label.charge / model.capacity / CHARGE_STEP + 1) * CHARGE_STEP;
+      for (; level <= 1 + 1e-9; level += CHARGE_STEP) {
+        const target = Math.min(level, 1) * model.capacity;
+        addLabel({
+          node: label.node,
+          cost: label.cost + chargeTime(label.charge, target, station.power, model),
+          charge: target,
+          parent: index,
+          charged: true,
+        });
+      }
+    }
+
+    const edges = (graph.edges.get(label.node) || []) as WeightedEdge[];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      const charge = label.charge - edgeEnergy(edge, model);
+      if (charge < reserve) continue;
+      addLabel({
+        node: edge.target,
+        cost: label.cost + edge.duration,
+        charge,
+        parent: index,
+        charged: false,
+      });
+    }
+  }
+
+  if (goal < 0) {
+    throw new Error('No path found between start and end nodes within battery range.');
+  }
+
+  // Walk the labels back; a charging label adds a stop rather than a vertex
+  const chain: Label[] = [];
+  for (let i = goal; i >= 0; i = labels[i].parent) chain.unshift(labels[i]);
+
+  const path: number[][] = [];
+  const stateOfCharge: number[] = [];
+  const chargingStops: ChargingStop[] = [];
+  const percent = (charge: number) => (charge / model.capacity) * 100;
+  let totalChargeTime = 0;
+  let energyUsed = 0;
+  let totalDistance = 0;
+  chain.forEach((label, i) => {
+    const node = graph.nodes.get(label.node)!;
+    if (label.charged) {
+      const before = chain[i - 1];
+      const time = label.cost - before.cost;
+      const station = stations.get(label.node)!;
+      chargingStops.push({
+        name: station.name,
+        coordinates: [node.lng, node.lat],
+        from: percent(before.charge),
+        to: percent(label.charge),
+        time,
+      });
+      totalChargeTime += time;
+      return;
+    }
+    if (i > 0) {
+      const before = chain[i - 1];
+      energyUsed += before.charge - label.charge;
+      const edge = ((graph.edges.get(before.node) || []) as WeightedEdge[]).find(
+        (e) => e.target === label.node && Math.abs(before.cost + e.duration - label.cost) < 1e-6
+      );
+      totalDistance += edge ? edge.length : 0;
+    }
+    path.push([node.lng, node.lat]);
+    stateOfCharge.push(percent(label.charge));
+  });
+
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: totalDistance / 1000,
+    time: executionTime,
+    nodesVisited: labelsSettled,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+    stateOfCharge,
+    chargingStops,
+    chargeTime: totalChargeTime,
+    energyUsed,
+  };
+}
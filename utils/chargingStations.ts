@@ -0,0 +1,71 @@
+// utils/chargingStations.ts
+// E-trike charging stations, in the same GeoJSON export style as utils/nodes.ts.
+// `power_kw` is the charger output. The stations sit on graph intersections: these
+// are planning sites for the e-trike study, not a survey of installed chargers.
+export const chargingStationsGeoJSON = {
+  type: 'FeatureCollection',
+  name: 'naga_etrike_charging_stations',
+  crs: { type: 'name', properties: { name: 'urn:ogc:def:crs:OGC:1.3:CRS84' } },
+  features: [
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-01',
+        name: 'Charging point 1',
+        power_kw: 3.3,
+        node_id: '254708589',
+      },
+      geometry: { type: 'Point', coordinates: [123.1953568, 13.6262986] },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-02',
+        name: 'Charging point 2',
+        power_kw: 3.3,
+        node_id: '254709401',
+      },
+      geometry: { type: 'Point', coordinates: [123.1840117, 13.6206264] },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-03',
+        name: 'Charging point 3',
+        power_kw: 6.6,
+        node_id: '5707708053',
+      },
+      geometry: { type: 'Point', coordinates: [123.2080304, 13.6366387] },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-04',
+        name: 'Charging point 4',
+        power_kw: 3.3,
+        node_id: '254717041',
+      },
+      geometry: { type: 'Point', coordinates: [123.2145701, 13.6199645] },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-05',
+        name: 'Charging point 5',
+        power_kw: 3.3,
+        node_id: '254708849',
+      },
+      geometry: { type: 'Point', coordinates: [123.1899166, 13.6418829] },
+    },
+    {
+      type: 'Feature',
+      properties: {
+        station_id: 'cs-06',
+        name: 'Charging point 6',
+        power_kw: 6.6,
+        node_id: '254734589',
+      },
+      geometry: { type: 'Point', coordinates: [123.2306828, 13.6316585] },
+    },
+  ],
+};
@@ -0,0 +1,60 @@
+// utils/closures.ts
+// Road closures and penalties set from the map. A closure covers a street in both
+// directions. A penalty multiplies the street's cost (weight and travel time) but
+// leaves its length alone, so distances stay physical; Infinity closes it outright.
+import { WeightedEdge, WeightedGraph } from './weighting';
+
+export type Closures = Map<string, number>; // street key → cost multiplier
+
+// What a tap on a street sets: close it, or slow it down
+export const closureTools: { id: string; name: string; penalty: number }[] = [
+  { id: 'closed', name: 'Close', penalty: Infinity },
+  { id: 'x2', name: '×2', penalty: 2 },
+  { id: 'x5', name: '×5', penalty: 5 },
+  { id: 'x10', name: '×10', penalty: 10 },
+];
+
+export const streetKey = (u: string, v: string): string => (u < v ? `${u}-${v}` : `${v}-${u}`);
+
+// Tapping a street with the tool it already has reopens it
+export function toggleClosure(closures: Closures, u: string, v: string, penalty: number): Closures {
+  const next = new Map(closures);
+  const key = streetKey(u, v);
+  if (next.get(key) === penalty) next.delete(key);
+  else next.set(key, penalty);
+  return next;
+}
+
+// Stable text form, used for caching and to tell whether a rerun only changed closures
+export const closuresSignature = (closures: Closures): string =>
+  Array.from(closures.entries())
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+    .map(([key, penalty]) => `${key}:${penalty}`)
+    .join(',');
+
+const closedGraphs = new WeakMap<WeightedGraph, { signature: string; graph: WeightedGraph }>();
+
+export function applyClosures(graph: WeightedGraph, closures: Closures): WeightedGraph {
+  if (closures.size === 0) return graph;
+  const signature = closuresSignature(closures);
+  const cached = closedGraphs.get(graph);
+  if (cached && cached.signature === signature) return cached.graph;
+
+  const edges = new Map<string, WeightedEdge[]>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    const kept: WeightedEdge[] = [];
+    for (const edge of edgeList) {
+      const penalty = closures.get(streetKey(source, edge.target));
+      if (penalty === undefined) {
+        kept.push(edge);
+      } else if (penalty !== Infinity) {
+        kept.push({ ...edge, weight: edge.weight * penalty, duration: edge.duration * penalty });
+      }
+    }
+    edges.set(source, kept);
+  }
+
+  const result = { ...graph, edges };
+  closedGraphs.set(graph, { signature, graph: result });
+  return result;
+}
@@ -0,0 +1,465 @@
+// utils/contractionHierarchies.ts
+// Contraction Hierarchies (Geisberger et al., 2008). Nodes are contracted one at a
+// time in order of importance, adding shortcut edges wherever a contracted node was
+// the only shortest connection between two of its neighbours. A query then only
+// relaxes edges that lead to more important nodes, from both ends.
+import AsyncStorage from '@react-native-async-storage/async-storage';
+
+import { Graph, PathfindingResult, findNearestNode } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+// Each hierarchy is stored under its graph's signature, so switching vehicle profile,
+// metric, closures or zones back and forth reuses what was built before. The index
+// keeps the signatures most recently used first; older hierarchies are evicted.
+const STORAGE_KEY = 'contraction-hierarchy';
+const STORAGE_INDEX_KEY = 'contraction-hierarchy-index';
+const STORAGE_VERSION = 1;
+const MAX_STORED_HIERARCHIES = 4;
+// Witness searches are cut off after this many settled nodes. A cut-off search can
+// only add unnecessary shortcuts, never drop a needed one.
+const WITNESS_SETTLE_LIMIT = 60;
+
+export interface ContractionHierarchy {
+  signature: string;
+  ranks: Map<string, number>;
+  // Edges to higher-ranked nodes, for the forward search
+  upward: Map<string, { target: string; weight: number }[]>;
+  // Reversed edges from higher-ranked nodes, for the backward search
+  downward: Map<string, { target: string; weight: number }[]>;
+  // Middle node of each shortcut, keyed by `${source}->${target}`
+  via: Map<string, string>;
+  shortcutCount: number;
+  preprocessingTime: number; // milliseconds
+}
+
+export interface ContractionHierarchyResult extends PathfindingResult {
+  preprocessingTime: number; // milliseconds
+  shortcutCount: number;
+  loadedFromStorage: boolean;
+}
+
+interface SerializedHierarchy {
+  version: number;
+  signature: string;
+  ranks: [string, number][];
+  edges: [string, string, number][];
+  via: [string, string][];
+  shortcutCount: number;
+  preprocessingTime: number;
+}
+
+const compareNumbers = (a: number, b: number): number => (a < b ? -1 : a > b ? 1 : 0);
+
+const pairKey = (source: string, target: string) => `${source}->${target}`;
+
+// Identifies the graph a stored hierarchy was built from: a 53-bit hash (cyrb53) of
+// every edge's source, target and exact weight, so a closure or zone penalty on any
+// one street gives a different signature even when the totals stay the same
+export function graphSignature(graph: Graph): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  let edgeCount = 0;
+  for (const [source, edgeList] of graph.edges.entries()) {
+    for (const edge of edgeList) {
+      edgeCount++;
+      const text = `${source}>${edge.target}:${edge.weight};`;
+      for (let i = 0; i < text.length; i++) {
+        const char = text.charCodeAt(i);
+        h1 = Math.imul(h1 ^ char, 2654435761);
+        h2 = Math.imul(h2 ^ char, 1597334677);
+      }
+    }
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  const hash = 4294967296 * (2097151 & h2) + (h1 >>> 0);
+  return `${graph.nodes.size}:${edgeCount}:${hash.toString(36)}`;
+}
+
+export async function buildContractionHierarchy(graph: Graph): Promise<ContractionHierarchy> {
+  const startTime = busyClock();
+
+  // Working copy of the graph with parallel edges collapsed to the cheapest one
+  const outEdges = new Map<string, Map<string, number>>();
+  const inEdges = new Map<string, Map<string, number>>();
+  for (const id of graph.nodes.keys()) {
+    outEdges.set(id, new Map());
+    inEdges.set(id, new Map());
+  }
+  for (const [source, edgeList] of graph.edges.entries()) {
+    for (const edge of edgeList) {
+      if (source === edge.target || !outEdges.has(source) || !outEdges.has(edge.target)) continue;
+      const current = outEdges.get(source)!.get(edge.target);
+      if (current === undefined || edge.weight < current) {
+        outEdges.get(source)!.set(edge.target, edge.weight);
+        inEdges.get(edge.target)!.set(source, edge.weight);
+      }
+    }
+  }
+
+  const via = new Map<string, string>();
+  const contracted = new Set<string>();
+  const contractedNeighbors = new Map<string, number>();
+  const ranks = new Map<string, number>();
+  let shortcutCount = 0;
+
+  // Limited Dijkstra from `source` that ignores `excluded` and contracted nodes
+  const witnessSearch = (source: string, excluded: string, limit: number): Map<string, number> => {
+    const distances = new Map<string, number>([[source, 0]]);
+    const heap = new IndexedHeap<number>(compareNumbers);
+    heap.push(source, 0);
+    let settled = 0;
+    while (!heap.isEmpty() && settled < WITNESS_SETTLE_LIMIT) {
+      const { id, priority } = heap.pop()!;
+      if (priority > limit) break;
+      settled++;
+      for (const [target, weight] of outEdges.get(id)!) {
+        if (target === excluded || contracted.has(target)) continue;
+        const newDist = priority + weight;
+        if (newDist < (distances.get(target) ?? Infinity)) {
+          distances.set(target, newDist);
+          heap.push(target, newDist);
+        }
+      }
+    }
+    return distances;
+  };
+
+  // Shortcuts that contracting `node` would need, without applying them
+  const findShortcuts = (node: string): { source: string; target: string; weight: number }[] => {
+    const shortcuts: { source: string; target: string; weight: number }[] = [];
+    const outgoing = [...outEdges.get(node)!].filter(([target]) => !contracted.has(target));
+    if (outgoing.length === 0) return shortcuts;
+    const maxOut = Math.max(...outgoing.map(([, weight]) => weight));
+
+    for (const [source, inWeight] of inEdges.get(node)!) {
+      if (contracted.has(source)) continue;
+      const witnesses = witnessSearch(source, node, inWeight + maxOut);
+      for (const [target, outWeight] of outgoing) {
+        if (target === source) continue;
+        const viaNode = inWeight + outWeight;
+        if ((witnesses.get(target) ?? Infinity) > viaNode) {
+          shortcuts.push({ source, target, weight: viaNode });
+        }
+      }
+    }
+    return shortcuts;
+  };
+
+  const priority = (node: string): number => {
+    let removed = 0;
+    for (const target of outEdges.get(node)!.keys()) if (!contracted.has(target)) removed++;
+    for (const source of inEdges.get(node)!.keys()) if (!contracted.has(source)) removed++;
+    const edgeDifference = findShortcuts(node).length - removed;
+    return edgeDifference + 2 * (contractedNeighbors.get(node) ?? 0);
+  };
+
+  const queue = new IndexedHeap<number>(compareNumbers);
+  for (const id of graph.nodes.keys()) {
+    await checkpoint();
+    queue.push(id, priority(id));
+  }
+
+  while (!queue.isEmpty()) {
+    await checkpoint();
+    const { id: node } = queue.pop()!;
+
+    // Lazy update: re-evaluate and put the node back if it is no longer the cheapest
+    const current = priority(node);
+    if (!queue.isEmpty() && current > queue.peek()!.priority) {
+      queue.push(node, current);
+      continue;
+    }
+
+    for (const shortcut of findShortcuts(node)) {
+      const existing = outEdges.get(shortcut.source)!.get(shortcut.target);
+      if (existing !== undefined && existing <= shortcut.weight) continue;
+      outEdges.get(shortcut.source)!.set(shortcut.target, shortcut.weight);
+      inEdges.get(shortcut.target)!.set(shortcut.source, shortcut.weight);
+      via.set(pairKey(shortcut.source, shortcut.target), node);
+      shortcutCount++;
+    }
+
+    contracted.add(node);
+    ranks.set(node, ranks.size);
+    const neighbors = new Set([...outEdges.get(node)!.keys(), ...inEdges.get(node)!.keys()]);
+    for (const neighbor of neighbors) {
+      contractedNeighbors.set(neighbor, (contractedNeighbors.get(neighbor) ?? 0) + 1);
+    }
+  }
+
+  const hierarchy = splitByRank(graphSignature(graph), ranks, outEdges, via);
+  hierarchy.shortcutCount = shortcutCount;
+  hierarchy.preprocessingTime = busyClock() - startTime;
+
+  return hierarchy;
+}
+
+function splitByRank(
+  signature: string,
+  ranks: Map<string, number>,
+  outEdges: Map<string, Map<string, number>>,
+  via: Map<string, string>
+): ContractionHierarchy {
+  const upward = new Map<string, { target: string; weight: number }[]>();
+  const downward = new Map<string, { target: string; weight: number }[]>();
+  for (const [source, targets] of outEdges) {
+    for (const [target, weight] of targets) {
+      if (ranks.get(target)! > ranks.get(source)!) {
+        if (!upward.has(source)) upward.set(source, []);
+        upward.get(source)!.push({ target, weight });
+      } else {
+        if (!downward.has(target)) downward.set(target, []);
+        downward.get(target)!.push({ target: source, weight });
+      }
+    }
+  }
+  return { signature, ranks, upward, downward, via, shortcutCount: 0, preprocessingTime: 0 };
+}
+
+const storageKey = (signature: string) => `${STORAGE_KEY}:${signature}`;
+
+async function storedSignatures(): Promise<string[]> {
+  const raw = await AsyncStorage.getItem(STORAGE_INDEX_KEY);
+  if (!raw) return [];
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return [];
+  }
+}
+
+// Moves a signature to the front of the index and drops the hierarchies past the limit
+async function touchStoredSignature(signature: string): Promise<void> {
+  const signatures = [
+    signature,
+    ...(await storedSignatures()).filter((stored) => stored !== signature),
+  ];
+  const evicted = signatures.splice(MAX_STORED_HIERARCHIES);
+  if (evicted.length > 0) await AsyncStorage.multiRemove(evicted.map(storageKey));
+  await AsyncStorage.setItem(STORAGE_INDEX_KEY, JSON.stringify(signatures));
+}
+
+export async function saveContractionHierarchy(hierarchy: ContractionHierarchy): Promise<void> {
+  const edges: [string, string, number][] = [];
+  for (const [source, list] of hierarchy.upward) {
+    for (const edge of list) edges.push([source, edge.target, edge.weight]);
+  }
+  for (const [target, list] of hierarchy.downward) {
+    for (const edge of list) edges.push([edge.target, target, edge.weight]);
+  }
+  const serialized: SerializedHierarchy = {
+    version: STORAGE_VERSION,
+    signature: hierarchy.signature,
+    ranks: [...hierarchy.ranks],
+    edges,
+    via: [...hierarchy.via],
+    shortcutCount: hierarchy.shortcutCount,
+    preprocessingTime: hierarchy.preprocessingTime,
+  };
+  await AsyncStorage.setItem(storageKey(hierarchy.signature), JSON.stringify(serialized));
+  await touchStoredSignature(hierarchy.signature);
+}
+
+// Returns null when no hierarchy is stored for this graph
+export async function loadContractionHierarchy(graph: Graph): Promise<ContractionHierarchy | null> {
+  const signature = graphSignature(graph);
+  const raw = await AsyncStorage.getItem(storageKey(signature));
+  if (!raw) return null;
+
+  let serialized: SerializedHierarchy;
+  try {
+    serialized = JSON.parse(raw);
+  } catch {
+    console.warn('Discarding unreadable contraction hierarchy from storage');
+    return null;
+  }
+  if (serialized.version !== STORAGE_VERSION || serialized.signature !== signature) {
+    return null;
+  }
+  await touchStoredSignature(signature);
+
+  const outEdges = new Map<string, Map<string, number>>();
+  for (const [source, target, weight] of serialized.edges) {
+    if (!outEdges.has(source)) outEdges.set(source, new Map());
+    outEdges.get(source)!.set(target, weight);
+  }
+  const hierarchy = splitByRank(
+    serialized.signature,
+    new Map(serialized.ranks),
+    outEdges,
+    new Map(serialized.via)
+  );
+  hierarchy.shortcutCount = serialized.shortcutCount;
+  hierarchy.preprocessingTime = serialized.preprocessingTime;
+  return hierarchy;
+}
+
+// Removes every stored hierarchy, and the single one earlier versions kept
+export async function clearContractionHierarchy(): Promise<void> {
+  const signatures = await storedSignatures();
+  await AsyncStorage.multiRemove([STORAGE_KEY, STORAGE_INDEX_KEY, ...signatures.map(storageKey)]);
+}
+
+// One hierarchy per loaded graph; built or restored on first use
+const hierarchies = new WeakMap<
+  Graph,
+  { hierarchy: ContractionHierarchy; loadedFromStorage: boolean }
+>();
+
+export async function getContractionHierarchy(
+  graph: Graph
+): Promise<{ hierarchy: ContractionHierarchy; loadedFromStorage: boolean }> {
+  const cached = hierarchies.get(graph);
+  if (cached) return cached;
+
+  let entry: { hierarchy: ContractionHierarchy; loadedFromStorage: boolean };
+  const stored = await loadContractionHierarchy(graph).catch((error) => {
+    console.warn('Failed to load contraction hierarchy:', error);
+    return null;
+  });
+  if (stored) {
+    entry = { hierarchy: stored, loadedFromStorage: true };
+  } else {
+    entry = { hierarchy: await buildContractionHierarchy(graph), loadedFromStorage: false };
+    saveContractionHierarchy(entry.hierarchy).catch((error) =>
+      console.warn('Failed to save contraction hierarchy:', error)
+    );
+  }
+  hierarchies.set(graph, entry);
+  return entry;
+}
+
+const unpackEdge = (hierarchy: ContractionHierarchy, source: string, target: string): string[] => {
+  const middle = hierarchy.via.get(pairKey(source, target));
+  if (middle === undefined) return [target];
+  return [...unpackEdge(hierarchy, source, middle), ...unpackEdge(hierarchy, middle, target)];
+};
+
+// Contraction Hierarchies query (bidirectional upward Dijkstra)
+export async function contractionHierarchiesPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<ContractionHierarchyResult> {
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const { hierarchy, loadedFromStorage } = await getContractionHierarchy(graph);
+
+  const startTime = busyClock();
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const sides = [
+    {
+      edges: hierarchy.upward,
+      distances: new Map<string, number>(),
+      previous: new Map<string, string>(),
+      heap: new IndexedHeap<number>(compareNumbers),
+      settled: new Set<string>(),
+    },
+    {
+      edges: hierarchy.downward,
+      distances: new Map<string, number>(),
+      previous: new Map<string, string>(),
+      heap: new IndexedHeap<number>(compareNumbers),
+      settled: new Set<string>(),
+    },
+  ];
+  sides[0].distances.set(startNode.osmid, 0);
+  sides[0].heap.push(startNode.osmid, 0);
+  sides[1].distances.set(endNode.osmid, 0);
+  sides[1].heap.push(endNode.osmid, 0);
+
+  const visitedNodes: number[][] = [];
+  let edgesExplored = 0;
+  let bestDistance = Infinity;
+  let meetingNode: string | null = null;
+
+  // Each side stops once its smallest key can no longer improve the best meeting
+  const active = (index: number) =>
+    !sides[index].heap.isEmpty() && sides[index].heap.peek()!.priority < bestDistance;
+
+  while (active(0) || active(1)) {
+    await checkpoint();
+    const sideIndex =
+      active(0) && (!active(1) || sides[0].heap.peek()!.priority <= sides[1].heap.peek()!.priority)
+        ? 0
+        : 1;
+    const side = sides[sideIndex];
+    const other = sides[1 - sideIndex];
+
+    const { id: current, priority: distance } = side.heap.pop()!;
+    side.settled.add(current);
+
+    const node = graph.nodes.get(current)!;
+    visitedNodes.push([node.lng, node.lat, sideIndex]);
+
+    const otherDistance = other.distances.get(current);
+    if (otherDistance !== undefined && distance + otherDistance < bestDistance) {
+      bestDistance = distance + otherDistance;
+      meetingNode = current;
+    }
+
+    const edges = side.edges.get(current) || [];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      const newDist = distance + edge.weight;
+      if (newDist < (side.distances.get(edge.target) ?? Infinity)) {
+        side.distances.set(edge.target, newDist);
+        side.previous.set(edge.target, current);
+        side.heap.push(edge.target, newDist);
+      }
+    }
+  }
+
+  if (meetingNode === null) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  // Walk both search trees to the meeting node, then expand every shortcut
+  const forwardIds: string[] = [meetingNode];
+  let current: string | undefined = sides[0].previous.get(meetingNode);
+  while (current !== undefined) {
+    forwardIds.unshift(current);
+    current = sides[0].previous.get(current);
+  }
+  const backwardIds: string[] = [];
+  current = sides[1].previous.get(meetingNode);
+  while (current !== undefined) {
+    backwardIds.push(current);
+    current = sides[1].previous.get(current);
+  }
+  const hierarchyPath = [...forwardIds, ...backwardIds];
+  const pathIds = [hierarchyPath[0]];
+  for (let i = 1; i < hierarchyPath.length; i++) {
+    pathIds.push(...unpackEdge(hierarchy, hierarchyPath[i - 1], hierarchyPath[i]));
+  }
+  const path = pathIds.map((id) => {
+    const pathNode = graph.nodes.get(id)!;
+    return [pathNode.lng, pathNode.lat];
+  });
+  const nodesVisited = sides[0].settled.size + sides[1].settled.size;
+
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: bestDistance / 1000,
+    time: executionTime,
+    nodesVisited,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+    preprocessingTime: hierarchy.preprocessingTime,
+    shortcutCount: hierarchy.shortcutCount,
+    loadedFromStorage,
+  };
+}
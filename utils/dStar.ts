@@ -0,0 +1,215 @@
+// utils/dStar.ts
+// Stentz's original D* (1994). Like D* Lite it searches backwards from the goal,
+// but it repairs costs by propagating RAISE and LOWER states through backpointers.
+// The focusing heuristic is not used because a kept planner's start vertex never
+// moves: a query from elsewhere gets a planner of its own.
+import { Graph } from './algorithms';
+import {
+  EdgeChange,
+  IncrementalPathfindingResult,
+  IncrementalPlanner,
+  PlanStats,
+  PlannedRoute,
+  edgeKey,
+  runIncrementalPathfinding,
+} from './dStarLite';
+import { IndexedHeap } from './indexedHeap';
+import { checkpoint } from './scheduler';
+
+type Tag = 'new' | 'open' | 'closed';
+
+const compareNumbers = (a: number, b: number): number => (a < b ? -1 : a > b ? 1 : 0);
+
+export class DStar implements IncrementalPlanner {
+  private h = new Map<string, number>();
+  private k = new Map<string, number>();
+  private tags = new Map<string, Tag>();
+  private backpointers = new Map<string, string>();
+  private open = new IndexedHeap<number>(compareNumbers);
+  private predecessors = new Map<string, { source: string; weight: number }[]>();
+  private costOverrides = new Map<string, number>();
+
+  constructor(
+    private graph: Graph,
+    private start: string,
+    private goal: string,
+    initialChanges: EdgeChange[] = []
+  ) {
+    for (const [source, edgeList] of graph.edges.entries()) {
+      for (const edge of edgeList) {
+        if (!this.predecessors.has(edge.target)) this.predecessors.set(edge.target, []);
+        this.predecessors.get(edge.target)!.push({ source, weight: edge.weight });
+      }
+    }
+    for (const change of initialChanges) {
+      this.costOverrides.set(edgeKey(change.source, change.target), change.weight);
+    }
+    this.insert(goal, 0);
+  }
+
+  // MODIFY-COST: the source of a changed edge is reopened when its cost to the goal
+  // runs through the edge or can now use it, and PROCESS-STATE passes the RAISE or
+  // LOWER on to the nodes that depend on it
+  updateEdge(source: string, target: string, weight: number) {
+    const exists = (this.graph.edges.get(source) || []).some((e) => e.target === target);
+    if (!exists) {
+      console.warn(`D*: ignoring change to unknown edge ${source}-${target}`);
+      return;
+    }
+    this.costOverrides.set(edgeKey(source, target), weight);
+    const viaTarget = this.getH(target) + weight;
+    if (
+      this.getTag(source) !== 'new' &&
+      (this.backpointers.get(source) === target || viaTarget < this.getH(source))
+    ) {
+      this.backpointers.set(source, target);
+      this.insert(source, viaTarget);
+    }
+  }
+
+  async plan(): Promise<PlanStats> {
+    const stats: PlanStats = { nodesVisited: 0, edgesExplored: 0, visitedIds: [] };
+
+    while (!this.open.isEmpty()) {
+      await checkpoint();
+      const kMin = this.open.peek()!.priority;
+      if (this.getTag(this.start) === 'closed' && kMin >= this.getH(this.start)) break;
+      this.processState(stats);
+    }
+
+    return stats;
+  }
+
+  getRoute(): PlannedRoute | null {
+    if (this.getTag(this.start) === 'new' || this.getH(this.start) === Infinity) return null;
+
+    const nodeIds = [this.start];
+    let cost = 0;
+    let current = this.start;
+    while (current !== this.goal) {
+      const next = this.backpointers.get(current);
+      if (next === undefined || nodeIds.length > this.graph.nodes.size) return null;
+      const step = this.cost(current, next);
+      if (step === Infinity) return null;
+      nodeIds.push(next);
+      cost += step;
+      current = next;
+    }
+    return { nodeIds, cost };
+  }
+
+  private processState(stats: PlanStats) {
+    const top = this.open.pop()!;
+    const x = top.id;
+    const kOld = top.priority;
+    this.tags.set(x, 'closed');
+
+    stats.nodesVisited++;
+    stats.visitedIds.push(x);
+
+    const hX = () => this.getH(x);
+    const preds = this.predecessors.get(x) || [];
+    const succs = this.graph.edges.get(x) || [];
+    stats.edgesExplored += preds.length + succs.length;
+
+    // RAISE: try to lower h(x) through neighbours that are already optimal
+    if (kOld < hX()) {
+      for (const edge of succs) {
+        const y = edge.target;
+        const viaY = this.getH(y) + this.cost(x, y);
+        if (this.getTag(y) !== 'new' && this.getH(y) <= kOld && hX() > viaY) {
+          this.backpointers.set(x, y);
+          this.h.set(x, viaY);
+        }
+      }
+    }
+
+    if (kOld === hX()) {
+      // LOWER: propagate the new cost to every predecessor that can use it
+      for (const pred of preds) {
+        const y = pred.source;
+        const viaX = hX() + this.cost(y, x);
+        const pointsHere = this.backpointers.get(y) === x;
+        if (
+          this.getTag(y) === 'new' ||
+          (pointsHere && this.getH(y) !== viaX) ||
+          (!pointsHere && this.getH(y) > viaX)
+        ) {
+          this.backpointers.set(y, x);
+          this.insert(y, viaX);
+        }
+      }
+      return;
+    }
+
+    for (const pred of preds) {
+      const y = pred.source;
+      const viaX = hX() + this.cost(y, x);
+      const pointsHere = this.backpointers.get(y) === x;
+      if (this.getTag(y) === 'new' || (pointsHere && this.getH(y) !== viaX)) {
+        this.backpointers.set(y, x);
+        this.insert(y, viaX);
+      } else if (!pointsHere && this.getH(y) > viaX) {
+        this.insert(x, hX());
+      }
+    }
+    for (const edge of succs) {
+      const y = edge.target;
+      if (
+        this.backpointers.get(y) !== x &&
+        this.getTag(y) === 'closed' &&
+        hX() > this.getH(y) + this.cost(x, y) &&
+        this.getH(y) > kOld
+      ) {
+        this.insert(y, this.getH(y));
+      }
+    }
+  }
+
+  private insert(id: string, hNew: number) {
+    const tag = this.getTag(id);
+    let key = hNew;
+    if (tag === 'open') key = Math.min(this.k.get(id)!, hNew);
+    else if (tag === 'closed') key = Math.min(this.getH(id), hNew);
+    this.k.set(id, key);
+    this.h.set(id, hNew);
+    this.tags.set(id, 'open');
+    this.open.push(id, key);
+  }
+
+  private getH(id: string): number {
+    return this.h.get(id) ?? Infinity;
+  }
+
+  private getTag(id: string): Tag {
+    return this.tags.get(id) ?? 'new';
+  }
+
+  private cost(source: string, target: string): number {
+    const override = this.costOverrides.get(edgeKey(source, target));
+    if (override !== undefined) return override;
+    let best = Infinity;
+    for (const edge of this.graph.edges.get(source) || []) {
+      if (edge.target === target && edge.weight < best) best = edge.weight;
+    }
+    return best;
+  }
+}
+
+// D* Implementation. `baseGraph` is `graph` before closures and zones.
+export async function dStarPathfinding(
+  baseGraph: Graph,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<IncrementalPathfindingResult> {
+  const { result } = await runIncrementalPathfinding(
+    'D*',
+    baseGraph,
+    graph,
+    start,
+    end,
+    (startId, goalId, changes) => new DStar(baseGraph, startId, goalId, changes)
+  );
+  return result;
+}
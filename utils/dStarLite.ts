@@ -0,0 +1,370 @@
+// utils/dStarLite.ts
+// D* Lite (Koenig & Likhachev, 2002). The search runs backwards from the goal and
+// keeps its g/rhs values between queries, so an edge change only re-expands the
+// vertices whose cost-to-goal is actually affected.
+import { Edge, Graph, PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+export interface EdgeChange {
+  source: string;
+  target: string;
+  weight: number; // Infinity blocks the edge
+}
+
+export interface PlanStats {
+  nodesVisited: number;
+  edgesExplored: number;
+  visitedIds: string[];
+}
+
+export interface PlannedRoute {
+  nodeIds: string[];
+  cost: number; // meters
+}
+
+// Common surface of the planners that can repair a path after edge changes
+export interface IncrementalPlanner {
+  plan(): Promise<PlanStats>;
+  updateEdge(source: string, target: string, weight: number): void;
+  getRoute(): PlannedRoute | null;
+}
+
+// How a repair after edge changes compares with searching the changed graph afresh
+export interface ReplanStats {
+  changedEdges: number; // edges updated since the planner's previous query
+  nodesVisited: number; // vertices the incremental repair expanded
+  fullSearchNodesVisited: number; // vertices a from-scratch search expands on the changed graph
+  time: number; // milliseconds
+  fullSearchTime: number; // milliseconds
+}
+
+export interface IncrementalPathfindingResult extends PathfindingResult {
+  replan: ReplanStats | null; // null when nothing changed since the planner's last query
+}
+
+type Key = [number, number];
+
+const compareKeys = (a: Key, b: Key): number => {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  if (a[1] !== b[1]) return a[1] < b[1] ? -1 : 1;
+  return 0;
+};
+
+const EPSILON = 1e-9;
+
+export const edgeKey = (source: string, target: string) => `${source}->${target}`;
+
+export class DStarLite implements IncrementalPlanner {
+  private g = new Map<string, number>();
+  private rhs = new Map<string, number>();
+  private open = new IndexedHeap<Key>(compareKeys);
+  private predecessors = new Map<string, { source: string; weight: number }[]>();
+  private costOverrides = new Map<string, number>();
+  private km = 0;
+
+  constructor(
+    private graph: Graph,
+    private start: string,
+    private goal: string,
+    initialChanges: EdgeChange[] = []
+  ) {
+    for (const [source, edgeList] of graph.edges.entries()) {
+      for (const edge of edgeList) {
+        if (!this.predecessors.has(edge.target)) this.predecessors.set(edge.target, []);
+        this.predecessors.get(edge.target)!.push({ source, weight: edge.weight });
+      }
+    }
+    for (const change of initialChanges) {
+      this.costOverrides.set(edgeKey(change.source, change.target), change.weight);
+    }
+    this.rhs.set(goal, 0);
+    this.open.push(goal, this.calculateKey(goal));
+  }
+
+  // Moves the start vertex (the "robot" position) without discarding search state
+  setStart(nodeId: string) {
+    if (nodeId === this.start) return;
+    this.km += this.heuristic(this.start, nodeId);
+    this.start = nodeId;
+  }
+
+  updateEdge(source: string, target: string, weight: number) {
+    const exists = (this.graph.edges.get(source) || []).some((e) => e.target === target);
+    if (!exists) {
+      console.warn(`D* Lite: ignoring change to unknown edge ${source}-${target}`);
+      return;
+    }
+    this.costOverrides.set(edgeKey(source, target), weight);
+    if (source !== this.goal) {
+      this.rhs.set(source, this.bestSuccessorCost(source));
+    }
+    this.updateVertex(source);
+  }
+
+  async plan(): Promise<PlanStats> {
+    const stats: PlanStats = { nodesVisited: 0, edgesExplored: 0, visitedIds: [] };
+
+    while (!this.open.isEmpty()) {
+      await checkpoint();
+      const top = this.open.peek()!;
+      const startConsistent = this.getRhs(this.start) <= this.getG(this.start);
+      if (compareKeys(top.priority, this.calculateKey(this.start)) >= 0 && startConsistent) break;
+
+      const u = top.id;
+      const kNew = this.calculateKey(u);
+      if (compareKeys(top.priority, kNew) < 0) {
+        this.open.push(u, kNew);
+        continue;
+      }
+
+      stats.nodesVisited++;
+      stats.visitedIds.push(u);
+      const preds = this.predecessors.get(u) || [];
+      stats.edgesExplored += preds.length;
+
+      if (this.getG(u) > this.getRhs(u)) {
+        this.g.set(u, this.getRhs(u));
+        this.open.remove(u);
+        for (const pred of preds) {
+          if (pred.source === this.goal) continue;
+          const candidate = this.cost(pred.source, u, pred.weight) + this.getG(u);
+          if (candidate < this.getRhs(pred.source)) this.rhs.set(pred.source, candidate);
+          this.updateVertex(pred.source);
+        }
+      } else {
+        const gOld = this.getG(u);
+        this.g.set(u, Infinity);
+        for (const pred of preds) {
+          if (pred.source === this.goal) continue;
+          const viaU = this.cost(pred.source, u, pred.weight) + gOld;
+          if (Math.abs(this.getRhs(pred.source) - viaU) < EPSILON) {
+            this.rhs.set(pred.source, this.bestSuccessorCost(pred.source));
+          }
+          this.updateVertex(pred.source);
+        }
+        this.updateVertex(u);
+      }
+    }
+
+    return stats;
+  }
+
+  getRoute(): PlannedRoute | null {
+    if (this.getG(this.start) === Infinity && this.getRhs(this.start) === Infinity) return null;
+
+    const nodeIds = [this.start];
+    let cost = 0;
+    let current = this.start;
+    while (current !== this.goal) {
+      let next: string | null = null;
+      let nextCost = Infinity;
+      let stepCost = Infinity;
+      for (const edge of this.graph.edges.get(current) || []) {
+        const c = this.cost(current, edge.target, edge.weight);
+        if (c + this.getG(edge.target) < nextCost) {
+          nextCost = c + this.getG(edge.target);
+          stepCost = c;
+          next = edge.target;
+        }
+      }
+      if (next === null || nextCost === Infinity || nodeIds.length > this.graph.nodes.size) {
+        return null;
+      }
+      nodeIds.push(next);
+      cost += stepCost;
+      current = next;
+    }
+    return { nodeIds, cost };
+  }
+
+  private getG(id: string): number {
+    return this.g.get(id) ?? Infinity;
+  }
+
+  private getRhs(id: string): number {
+    return this.rhs.get(id) ?? Infinity;
+  }
+
+  private cost(source: string, target: string, weight: number): number {
+    return this.costOverrides.get(edgeKey(source, target)) ?? weight;
+  }
+
+  private heuristic(a: string, b: string): number {
+    const nodeA = this.graph.nodes.get(a);
+    const nodeB = this.graph.nodes.get(b);
+    return nodeA && nodeB ? haversineDistance(nodeA, nodeB) : 0;
+  }
+
+  private calculateKey(id: string): Key {
+    const m = Math.min(this.getG(id), this.getRhs(id));
+    return [m + this.heuristic(this.start, id) + this.km, m];
+  }
+
+  private bestSuccessorCost(id: string): number {
+    let best = Infinity;
+    for (const edge of this.graph.edges.get(id) || []) {
+      const candidate = this.cost(id, edge.target, edge.weight) + this.getG(edge.target);
+      if (candidate < best) best = candidate;
+    }
+    return best;
+  }
+
+  private updateVertex(id: string) {
+    if (this.getG(id) !== this.getRhs(id)) {
+      this.open.push(id, this.calculateKey(id));
+    } else {
+      this.open.remove(id);
+    }
+  }
+}
+
+const toCoordinates = (graph: Graph, nodeIds: string[]): number[][] =>
+  nodeIds.map((id) => {
+    const node = graph.nodes.get(id)!;
+    return [node.lng, node.lat];
+  });
+
+const cheapestByTarget = (edgeList: Edge[] | undefined): Map<string, number> => {
+  const weights = new Map<string, number>();
+  for (const edge of edgeList || []) {
+    weights.set(edge.target, Math.min(weights.get(edge.target) ?? Infinity, edge.weight));
+  }
+  return weights;
+};
+
+// The edge costs of `graph` that differ from those of `baseGraph`, which it was made
+// from by closures and zones: a removed edge is blocked, a penalized one costs more
+export function edgeChanges(baseGraph: Graph, graph: Graph): Map<string, EdgeChange> {
+  const changes = new Map<string, EdgeChange>();
+  for (const [source, edgeList] of baseGraph.edges.entries()) {
+    const current = graph.edges.get(source);
+    if (current === edgeList) continue;
+    const weights = cheapestByTarget(current);
+    for (const [target, baseWeight] of cheapestByTarget(edgeList)) {
+      const weight = weights.get(target) ?? Infinity;
+      if (weight !== baseWeight) changes.set(edgeKey(source, target), { source, target, weight });
+    }
+  }
+  return changes;
+}
+
+// Planners are kept per base graph, algorithm and start/goal pair, with the changes
+// they currently have applied. Only the most recently used pairs are kept.
+const MAX_PLANNERS = 4;
+
+interface PlannerEntry<P extends IncrementalPlanner> {
+  planner: P;
+  changes: Map<string, EdgeChange>;
+}
+
+const planners = new WeakMap<Graph, Map<string, PlannerEntry<IncrementalPlanner>>>();
+
+// Runs an incremental planner on a query. The planner for the base graph and these
+// endpoints is reused from earlier queries: the closures and zones that changed since
+// then reach it as edge updates, and the search repairs only what they affect. A
+// repair is compared with a fresh search on the same changed graph.
+export async function runIncrementalPathfinding<P extends IncrementalPlanner>(
+  name: string,
+  baseGraph: Graph,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  createPlanner: (startId: string, goalId: string, changes: EdgeChange[]) => P
+): Promise<{ result: IncrementalPathfindingResult; planner: P }> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const changes = edgeChanges(baseGraph, graph);
+  const create = (c: EdgeChange[]) => createPlanner(startNode.osmid, endNode.osmid, c);
+  if (!planners.has(baseGraph)) planners.set(baseGraph, new Map());
+  const entries = planners.get(baseGraph)!;
+  const key = `${name}:${startNode.osmid}->${endNode.osmid}`;
+  let entry = entries.get(key) as PlannerEntry<P> | undefined;
+  entries.delete(key);
+
+  // Edges whose cost differs from what the kept planner has, including ones restored
+  const updates: EdgeChange[] = [];
+  if (entry) {
+    for (const [edge, change] of changes) {
+      if (entry.changes.get(edge)?.weight !== change.weight) updates.push(change);
+    }
+    for (const [edge, { source, target }] of entry.changes) {
+      if (changes.has(edge)) continue;
+      const weight = cheapestByTarget(baseGraph.edges.get(source)).get(target)!;
+      updates.push({ source, target, weight });
+    }
+    for (const change of updates) {
+      entry.planner.updateEdge(change.source, change.target, change.weight);
+    }
+    entry.changes = changes;
+  } else {
+    entry = { planner: create([...changes.values()]), changes };
+  }
+  entries.set(key, entry);
+  if (entries.size > MAX_PLANNERS) entries.delete(entries.keys().next().value!);
+
+  const { planner } = entry;
+  const stats = await planner.plan();
+  const route = planner.getRoute();
+  if (!route) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  const path = toCoordinates(graph, route.nodeIds);
+  const executionTime = busyClock() - startTime;
+
+  let replan: ReplanStats | null = null;
+  if (updates.length > 0) {
+    const fullStart = busyClock();
+    const full = await create([...changes.values()]).plan();
+    replan = {
+      changedEdges: updates.length,
+      nodesVisited: stats.nodesVisited,
+      fullSearchNodesVisited: full.nodesVisited,
+      time: executionTime,
+      fullSearchTime: busyClock() - fullStart,
+    };
+  }
+
+  return {
+    result: {
+      path,
+      distance: route.cost / 1000,
+      time: executionTime,
+      nodesVisited: stats.nodesVisited,
+      visitedNodes: toCoordinates(graph, stats.visitedIds),
+      edgesExplored: stats.edgesExplored,
+      pathNodeCount: path.length,
+      replan,
+    },
+    planner,
+  };
+}
+
+// D* Lite Implementation. `baseGraph` is `graph` before closures and zones.
+export async function dStarLitePathfinding(
+  baseGraph: Graph,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<IncrementalPathfindingResult> {
+  const { result } = await runIncrementalPathfinding(
+    'D* Lite',
+    baseGraph,
+    graph,
+    start,
+    end,
+    (startId, goalId, changes) => new DStarLite(baseGraph, startId, goalId, changes)
+  );
+  return result;
+}
@@ -0,0 +1,59 @@
+// utils/edgeGeometry.ts
+// Street shapes for edges. The edge export (utils/edges.ts, the OSMnx edge GeoDataFrame
+// saved as GeoJSON like utils/nodes.ts) carries each street's LineString from `u` to
+// `v`. Searches still work on intersections; a returned path is drawn and measured by
+// stitching the shapes of the edges it traversed, each turned to its direction of travel.
+import { haversineDistance } from './algorithms';
+import { WeightedGraph, pathEdge } from './weighting';
+
+// LineString (or MultiLineString, joined) coordinates of an edge feature
+export function featureGeometry(feature: any): number[][] | undefined {
+  const geometry = feature?.geometry;
+  if (geometry?.type === 'LineString') return geometry.coordinates;
+  if (geometry?.type === 'MultiLineString') return geometry.coordinates.flat();
+  return undefined;
+}
+
+export const lineLength = (line: number[][]): number => {
+  let length = 0;
+  for (let i = 1; i < line.length; i++) {
+    const [[lng1, lat1], [lng2, lat2]] = [line[i - 1], line[i]];
+    length += haversineDistance({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 });
+  }
+  return length;
+};
+
+export const reverseGeometry = (line: number[][]): number[][] => [...line].reverse();
+
+// Exports do not always store the line in u → v order; turn it so it starts at `from`
+export function orientGeometry(line: number[][], from: { lat: number; lng: number }): number[][] {
+  const [[firstLng, firstLat], [lastLng, lastLat]] = [line[0], line[line.length - 1]];
+  const toFirst = haversineDistance(from, { lat: firstLat, lng: firstLng });
+  const toLast = haversineDistance(from, { lat: lastLat, lng: lastLng });
+  return toLast < toFirst ? reverseGeometry(line) : line;
+}
+
+// One line per hop of a [lng, lat] node path. Hops without a matching edge, or whose
+// edge has no shape, are drawn straight.
+export function pathGeometry(graph: WeightedGraph, path: number[][]): number[][][] {
+  const segments: number[][][] = [];
+  for (let i = 1; i < path.length; i++) {
+    const edge = pathEdge(graph, path[i - 1], path[i]);
+    segments.push(
+      edge?.geometry && edge.geometry.length > 1 ? edge.geometry : [path[i - 1], path[i]]
+    );
+  }
+  return segments;
+}
+
+// Joins hop lines into one line, dropping the vertex each hop shares with the last
+export function stitchGeometry(segments: number[][][]): number[][] {
+  const line: number[][] = [];
+  for (const segment of segments) {
+    line.push(...(line.length > 0 ? segment.slice(1) : segment));
+  }
+  return line;
+}
+
+export const routeGeometry = (graph: WeightedGraph, path: number[][]): number[][] =>
+  path.length > 1 ? stitchGeometry(pathGeometry(graph, path)) : path;
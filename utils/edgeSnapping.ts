@@ -0,0 +1,201 @@
+// utils/edgeSnapping.ts
+// Start and end points on a street instead of at an intersection. A point picked on
+// a street is projected onto the street's shape, and a virtual node there splits the
+// street's edges (in each direction it can be driven) by the share of their length on
+// either side, so the query starts and ends exactly where the user tapped. The split
+// is made on a copy of the graph for a single query: the graph and everything cached
+// for it never see the virtual nodes, and they are gone once the query drops the copy.
+// The copy's spatial index layers the virtual nodes over the graph's own.
+import { Node, haversineDistance } from './algorithms';
+import { streetKey } from './closures';
+import { lineLength, reverseGeometry } from './edgeGeometry';
+import { extendSpatialIndex } from './spatialIndex';
+import { WeightedEdge, WeightedGraph } from './weighting';
+
+// A point this close to an end of its street starts at that intersection instead
+export const ENDPOINT_TOLERANCE = 1; // meters
+
+export const VIRTUAL_START = 'virtual-start';
+export const VIRTUAL_END = 'virtual-end';
+
+type Point = { lat: number; lng: number };
+
+// The street a point was picked on, by the edge's end nodes
+export interface StreetRef {
+  source: string;
+  target: string;
+}
+
+export interface EdgeAnchor {
+  id: string; // id for the virtual node
+  point: Point;
+  street: StreetRef | null; // null for points not picked on a street
+}
+
+export interface LineProjection {
+  coordinate: number[]; // [lng, lat] of the nearest point on the line
+  segment: number; // index of the line segment it lies on
+  offset: number; // meters along the line from its first vertex
+  distance: number; // meters from the projected point
+}
+
+export interface VirtualGraph {
+  graph: WeightedGraph;
+  points: Point[]; // where each anchor's query starts, in anchor order
+}
+
+// Nearest point on a [lng, lat] line, found on a local flat projection
+export function projectOntoLine(line: number[][], point: Point): LineProjection {
+  const scale = Math.cos((point.lat * Math.PI) / 180);
+  const [px, py] = [point.lng * scale, point.lat];
+  let best = { segment: 0, t: 0, squared: Infinity };
+  for (let i = 0; i + 1 < line.length; i++) {
+    const [ax, ay] = [line[i][0] * scale, line[i][1]];
+    const [dx, dy] = [line[i + 1][0] * scale - ax, line[i + 1][1] - ay];
+    const lengthSquared = dx * dx + dy * dy;
+    const t =
+      lengthSquared > 0
+        ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared))
+        : 0;
+    const squared = (ax + t * dx - px) ** 2 + (ay + t * dy - py) ** 2;
+    if (squared < best.squared) best = { segment: i, t, squared };
+  }
+
+  const { segment, t } = best;
+  const [from, to] = [line[segment], line[segment + 1] ?? line[segment]];
+  const coordinate = [from[0] + t * (to[0] - from[0]), from[1] + t * (to[1] - from[1])];
+  return {
+    coordinate,
+    segment,
+    offset: lineLength([...line.slice(0, segment + 1), coordinate]),
+    distance: haversineDistance(point, { lat: coordinate[1], lng: coordinate[0] }),
+  };
+}
+
+// An edge's shape from `from`, or the straight line between its ends when it has none
+const edgeLine = (nodes: Map<string, Node>, from: string, edge: WeightedEdge): number[][] => {
+  if (edge.geometry && edge.geometry.length > 1) return edge.geometry;
+  const [a, b] = [nodes.get(from)!, nodes.get(edge.target)!];
+  return [
+    [a.lng, a.lat],
+    [b.lng, b.lat],
+  ];
+};
+
+// The shape of the street from `from` to `to`, taken from an edge in either direction
+function streetLine(
+  nodes: Map<string, Node>,
+  edges: Map<string, WeightedEdge[]>,
+  from: string,
+  to: string
+): number[][] | undefined {
+  const forward = edges.get(from)?.find((edge) => edge.target === to);
+  if (forward) return edgeLine(nodes, from, forward);
+  const backward = edges.get(to)?.find((edge) => edge.target === from);
+  if (backward) return reverseGeometry(edgeLine(nodes, to, backward));
+  return undefined;
+}
+
+// Replaces every edge between a and b, in both directions, with two edges through the
+// node. Each part keeps its share of the edge's weight, length and travel time.
+function splitStreet(
+  nodes: Map<string, Node>,
+  edges: Map<string, WeightedEdge[]>,
+  a: string,
+  b: string,
+  node: Node
+) {
+  const outgoing: WeightedEdge[] = [];
+  const at = [node.lng, node.lat];
+  for (const [from, to] of [
+    [a, b],
+    [b, a],
+  ]) {
+    const edgeList = edges.get(from);
+    if (!edgeList?.some((edge) => edge.target === to)) continue;
+
+    const kept: WeightedEdge[] = [];
+    for (const edge of edgeList) {
+      if (edge.target !== to) {
+        kept.push(edge);
+        continue;
+      }
+      const line = edgeLine(nodes, from, edge);
+      const { segment, offset } = projectOntoLine(line, node);
+      const total = lineLength(line);
+      const share = total > 0 ? offset / total : 0.5;
+      const part = (
+        fraction: number,
+        source: string,
+        target: string,
+        geometry: number[][]
+      ): WeightedEdge => ({
+        ...edge,
+        source,
+        target,
+        weight: edge.weight * fraction,
+        length: edge.length * fraction,
+        duration: edge.duration * fraction,
+        geometry,
+      });
+      kept.push(part(share, from, node.osmid, [...line.slice(0, segment + 1), at]));
+      outgoing.push(part(1 - share, node.osmid, to, [at, ...line.slice(segment + 1)]));
+    }
+    edges.set(from, kept);
+  }
+  edges.set(node.osmid, outgoing);
+}
+
+// A copy of the graph with a virtual node for every anchor picked on a street. Anchors
+// off any street, on a street the graph no longer has (filtered out for the vehicle or
+// closed) or at an end of their street keep starting at the nearest intersection.
+export function withVirtualNodes(graph: WeightedGraph, anchors: EdgeAnchor[]): VirtualGraph {
+  if (!anchors.some((anchor) => anchor.street)) {
+    return { graph, points: anchors.map((anchor) => anchor.point) };
+  }
+
+  const nodes = new Map(graph.nodes);
+  const edges = new Map(graph.edges); // edge lists are replaced, never changed in place
+  // Street key → the nodes along it in order, virtual ones included
+  const streets = new Map<string, string[]>();
+  const virtualNodes: Node[] = [];
+
+  const points = anchors.map(({ id, point, street }) => {
+    const line = street && streetLine(graph.nodes, graph.edges, street.source, street.target);
+    if (!street || !line) return point;
+
+    const { coordinate, offset } = projectOntoLine(line, point);
+    const end =
+      offset < ENDPOINT_TOLERANCE
+        ? graph.nodes.get(street.source)!
+        : lineLength(line) - offset < ENDPOINT_TOLERANCE
+          ? graph.nodes.get(street.target)!
+          : null;
+    if (end) return { lat: end.lat, lng: end.lng };
+
+    const node: Node = { osmid: id, lat: coordinate[1], lng: coordinate[0] };
+    const key = streetKey(street.source, street.target);
+    const chain = streets.get(key) ?? [street.source, street.target];
+    // An earlier anchor may have split this street already; split the piece the point is on
+    let piece = 0;
+    let nearest = Infinity;
+    for (let i = 0; i + 1 < chain.length; i++) {
+      const pieceLine = streetLine(nodes, edges, chain[i], chain[i + 1]);
+      const distance = pieceLine ? projectOntoLine(pieceLine, node).distance : Infinity;
+      if (distance < nearest) {
+        nearest = distance;
+        piece = i;
+      }
+    }
+
+    nodes.set(id, node);
+    virtualNodes.push(node);
+    splitStreet(nodes, edges, chain[piece], chain[piece + 1], node);
+    chain.splice(piece + 1, 0, id);
+    streets.set(key, chain);
+    return { lat: node.lat, lng: node.lng };
+  });
+
+  extendSpatialIndex(nodes, graph.nodes, virtualNodes);
+  return { graph: { ...graph, nodes, edges }, points };
+}
@@ -1,5 +1,6 @@
 // utils/graph.ts
 import { haversineDistance } from './algorithms';
+import { allowsReverse, featureDirections } from './oneWay';
 
 export class Graph {
     nodes: Map<string, { lat: number; lng: number }>;
@@ -8,6 +9,7 @@ export class Graph {
     constructor(nodes: Map<string, { lat: number; lng: number }>, edgeList: any[]) {
         this.nodes = nodes;
         this.edges = new Map();
+        const directions = featureDirections(edgeList);
 
         for (const feature of edgeList) {
             const source = feature.properties.u.toString();
@@ -29,8 +31,10 @@ export class Graph {
             if (!this.edges.has(source)) this.edges.set(source, []);
             this.edges.get(source)!.push({ target, weight });
 
-            if (!this.edges.has(target)) this.edges.set(target, []);
-            this.edges.get(target)!.push({ target: source, weight });
+            if (allowsReverse(feature.properties, directions)) {
+                if (!this.edges.has(target)) this.edges.set(target, []);
+                this.edges.get(target)!.push({ target: source, weight });
+            }
         }
 
         console.log(`Graph constructed: ${this.nodes.size} nodes, ${this.edges.size} nodes with edges`);
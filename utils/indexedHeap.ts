@@ -0,0 +1,115 @@
+// utils/indexedHeap.ts
+// Binary min-heap keyed by node id. Unlike the PriorityQueue in algorithms.ts it
+// supports updating and removing an entry in place, which the incremental
+// planners (D* Lite, D*, LPA*) need to keep their open lists consistent.
+
+export class IndexedHeap<P> {
+  private heap: { id: string; priority: P }[] = [];
+  private positions = new Map<string, number>();
+
+  constructor(private compare: (a: P, b: P) => number) {}
+
+  get size(): number {
+    return this.heap.length;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.length === 0;
+  }
+
+  has(id: string): boolean {
+    return this.positions.has(id);
+  }
+
+  ids(): string[] {
+    return this.heap.map((entry) => entry.id);
+  }
+
+  peek(): { id: string; priority: P } | undefined {
+    return this.heap[0];
+  }
+
+  // Inserts the id, or moves it to the new priority if it is already queued
+  push(id: string, priority: P) {
+    const index = this.positions.get(id);
+    if (index !== undefined) {
+      const previous = this.heap[index].priority;
+      this.heap[index].priority = priority;
+      if (this.compare(priority, previous) < 0) this.siftUp(index);
+      else this.siftDown(index);
+      return;
+    }
+    this.heap.push({ id, priority });
+    this.positions.set(id, this.heap.length - 1);
+    this.siftUp(this.heap.length - 1);
+  }
+
+  pop(): { id: string; priority: P } | undefined {
+    if (this.heap.length === 0) return undefined;
+    const top = this.heap[0];
+    this.removeAt(0);
+    return top;
+  }
+
+  remove(id: string) {
+    const index = this.positions.get(id);
+    if (index !== undefined) this.removeAt(index);
+  }
+
+  clear() {
+    this.heap = [];
+    this.positions.clear();
+  }
+
+  private removeAt(index: number) {
+    const last = this.heap.pop()!;
+    this.positions.delete(this.heap.length === index ? last.id : this.heap[index].id);
+    if (index < this.heap.length) {
+      this.heap[index] = last;
+      this.positions.set(last.id, index);
+      this.siftDown(index);
+      this.siftUp(index);
+    }
+  }
+
+  private siftUp(index: number) {
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (this.compare(this.heap[index].priority, this.heap[parent].priority) >= 0) break;
+      this.swap(index, parent);
+      index = parent;
+    }
+  }
+
+  private siftDown(index: number) {
+    const length = this.heap.length;
+    while (true) {
+      const left = 2 * index + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (
+        left < length &&
+        this.compare(this.heap[left].priority, this.heap[smallest].priority) < 0
+      ) {
+        smallest = left;
+      }
+      if (
+        right < length &&
+        this.compare(this.heap[right].priority, this.heap[smallest].priority) < 0
+      ) {
+        smallest = right;
+      }
+      if (smallest === index) break;
+      this.swap(index, smallest);
+      index = smallest;
+    }
+  }
+
+  private swap(i: number, j: number) {
+    const tmp = this.heap[i];
+    this.heap[i] = this.heap[j];
+    this.heap[j] = tmp;
+    this.positions.set(this.heap[i].id, i);
+    this.positions.set(this.heap[j].id, j);
+  }
+}
@@ -0,0 +1,149 @@
+// utils/instructions.ts
+// Turn-by-turn directions for a found path. Consecutive edges of the same street
+// (OSM `name`) are grouped into one step, and the maneuver at the start of each step
+// is classified from the change of bearing where the streets meet. Bearings are
+// taken from the street shapes next to the intersection, not from the far ends of
+// the edges, so a curving street does not read as a turn.
+import { haversineDistance } from './algorithms';
+import { pathGeometry } from './edgeGeometry';
+import { bearing, turnAngle } from './turnRouting';
+import { WeightedGraph, firstValue, pathEdge } from './weighting';
+
+export type Maneuver =
+  | 'depart'
+  | 'continue'
+  | 'slight-left'
+  | 'slight-right'
+  | 'left'
+  | 'right'
+  | 'sharp-left'
+  | 'sharp-right'
+  | 'u-turn'
+  | 'arrive';
+
+export interface RouteStep {
+  maneuver: Maneuver;
+  street?: string; // undefined for unnamed roads
+  distance: number; // meters travelled from this maneuver to the next
+  coordinate: number[]; // [lng, lat] of the maneuver
+  instruction: string;
+}
+
+const CONTINUE_ANGLE = 15; // degrees either side of straight ahead
+const SLIGHT_ANGLE = 45;
+const SHARP_ANGLE = 135;
+const U_TURN_ANGLE = 170;
+
+const COMPASS = [
+  'north',
+  'northeast',
+  'east',
+  'southeast',
+  'south',
+  'southwest',
+  'west',
+  'northwest',
+];
+
+// OSMnx joins the names of merged ways like other tags; the first one is kept
+export const parseStreetName = (name: unknown): string | undefined => firstValue(name);
+
+export const classifyManeuver = (angle: number): Maneuver => {
+  const magnitude = Math.abs(angle);
+  const side = angle > 0 ? 'right' : 'left';
+  if (magnitude < CONTINUE_ANGLE) return 'continue';
+  if (magnitude < SLIGHT_ANGLE) return `slight-${side}`;
+  if (magnitude < SHARP_ANGLE) return side;
+  if (magnitude < U_TURN_ANGLE) return `sharp-${side}`;
+  return 'u-turn';
+};
+
+const compassDirection = (degrees: number): string =>
+  COMPASS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+
+const streetText = (street?: string) => street || 'an unnamed road';
+
+const describe = (maneuver: Maneuver, street: string | undefined, heading: number): string => {
+  switch (maneuver) {
+    case 'depart':
+      return `Head ${compassDirection(heading)}${street ? ` on ${street}` : ''}`;
+    case 'continue':
+      return `Continue onto ${streetText(street)}`;
+    case 'u-turn':
+      return `Make a U-turn onto ${streetText(street)}`;
+    case 'arrive':
+      return 'Arrive at your destination';
+    default: {
+      const [kind, side] = maneuver.includes('-') ? maneuver.split('-') : ['', maneuver];
+      const turn =
+        kind === 'slight' ? `Slight ${side}` : kind === 'sharp' ? `Sharp ${side}` : `Turn ${side}`;
+      return `${turn} onto ${streetText(street)}`;
+    }
+  }
+};
+
+const toPoint = ([lng, lat]: number[]) => ({ lat, lng });
+
+export function buildInstructions(graph: WeightedGraph, path: number[][]): RouteStep[] {
+  if (path.length < 2) return [];
+
+  const segments = pathGeometry(graph, path);
+  const hops = segments.map((segment, i) => {
+    const edge = pathEdge(graph, path[i], path[i + 1]);
+    return {
+      street: edge?.name,
+      length: edge ? edge.length : haversineDistance(toPoint(path[i]), toPoint(path[i + 1])),
+      // First and last legs of the shape, for the bearings at either end
+      start: [segment[0], segment[1]],
+      end: [segment[segment.length - 2], segment[segment.length - 1]],
+    };
+  });
+
+  const steps: RouteStep[] = [];
+  let current: RouteStep = {
+    maneuver: 'depart',
+    street: hops[0].street,
+    distance: 0,
+    coordinate: path[0],
+    instruction: describe(
+      'depart',
+      hops[0].street,
+      bearing(toPoint(hops[0].start[0]), toPoint(hops[0].start[1]))
+    ),
+  };
+
+  hops.forEach((hop, i) => {
+    if (i > 0) {
+      const previous = hops[i - 1];
+      const maneuver = classifyManeuver(
+        turnAngle(toPoint(previous.end[0]), toPoint(path[i]), toPoint(hop.start[1]))
+      );
+      // A named street bends freely; unnamed roads only group while going straight on
+      const sameStreet =
+        hop.street === current.street && (hop.street !== undefined || maneuver === 'continue');
+      if (!sameStreet || maneuver === 'u-turn') {
+        steps.push(current);
+        current = {
+          maneuver,
+          street: hop.street,
+          distance: 0,
+          coordinate: path[i],
+          instruction: describe(maneuver, hop.street, 0),
+        };
+      }
+    }
+    current.distance += hop.length;
+  });
+  steps.push(current);
+
+  steps.push({
+    maneuver: 'arrive',
+    distance: 0,
+    coordinate: path[path.length - 1],
+    instruction: describe('arrive', undefined, 0),
+  });
+  return steps;
+}
+
+export const formatStepDistance = (meters: number): string =>
+  meters >= 1000 ? `${(meters / 1000).toFixed(1)} km` : `${Math.round(meters / 10) * 10} m`;
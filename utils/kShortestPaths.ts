@@ -0,0 +1,165 @@
+// utils/kShortestPaths.ts
+// Yen's k-shortest loopless paths (Yen, 1971) on top of the node-level Dijkstra in
+// algorithms.ts. Each new route deviates from a previous one at some "spur" node
+// and follows the shortest path that avoids every already-found continuation.
+import { Graph, PathfindingResult, findNearestNode, shortestPathIds } from './algorithms';
+import { busyClock, checkpoint } from './scheduler';
+
+export const DEFAULT_K = 3;
+export const MAX_K = 8;
+
+export interface AlternativeRoute {
+  path: number[][];
+  distance: number; // kilometers
+  overlap: number; // share of this route's length also driven on the best route, 0..1
+}
+
+export interface KShortestPathsResult extends PathfindingResult {
+  alternatives: AlternativeRoute[];
+}
+
+const edgeWeight = (graph: Graph, source: string, target: string): number => {
+  let best = Infinity;
+  for (const edge of graph.edges.get(source) || []) {
+    if (edge.target === target && edge.weight < best) best = edge.weight;
+  }
+  return best;
+};
+
+const routeCost = (graph: Graph, nodeIds: string[]): number => {
+  let cost = 0;
+  for (let i = 1; i < nodeIds.length; i++) cost += edgeWeight(graph, nodeIds[i - 1], nodeIds[i]);
+  return cost;
+};
+
+export async function yenKShortestPaths(
+  graph: Graph,
+  source: string,
+  target: string,
+  k: number
+): Promise<{
+  routes: { nodeIds: string[]; cost: number }[];
+  nodesVisited: number;
+  edgesExplored: number;
+}> {
+  let nodesVisited = 0;
+  let edgesExplored = 0;
+
+  const first = await shortestPathIds(graph, source, target);
+  if (!first) return { routes: [], nodesVisited, edgesExplored };
+  nodesVisited += first.nodesVisited;
+  edgesExplored += first.edgesExplored;
+
+  const routes = [{ nodeIds: first.nodeIds, cost: first.cost }];
+  const candidates: { nodeIds: string[]; cost: number }[] = [];
+  const seen = new Set([first.nodeIds.join(',')]);
+
+  while (routes.length < k) {
+    await checkpoint();
+    const previous = routes[routes.length - 1].nodeIds;
+
+    for (let i = 0; i < previous.length - 1; i++) {
+      const spurNode = previous[i];
+      const rootPath = previous.slice(0, i + 1);
+
+      // Block the next edge of every known route that shares this root
+      const excludedEdges = new Set<string>();
+      for (const route of routes) {
+        if (route.nodeIds.length > i + 1 && rootPath.every((id, j) => route.nodeIds[j] === id)) {
+          excludedEdges.add(`${route.nodeIds[i]}->${route.nodeIds[i + 1]}`);
+        }
+      }
+      // Keep the spur path loopless by banning the root path itself
+      const excludedNodes = new Set(rootPath.slice(0, -1));
+
+      const spur = await shortestPathIds(graph, spurNode, target, excludedNodes, excludedEdges);
+      if (!spur) continue;
+      nodesVisited += spur.nodesVisited;
+      edgesExplored += spur.edgesExplored;
+
+      const nodeIds = [...rootPath.slice(0, -1), ...spur.nodeIds];
+      const key = nodeIds.join(',');
+      if (seen.has(key)) continue;
+      seen.add(key);
+      candidates.push({ nodeIds, cost: routeCost(graph, rootPath) + spur.cost });
+    }
+
+    if (candidates.length === 0) break;
+    candidates.sort((a, b) => a.cost - b.cost);
+    routes.push(candidates.shift()!);
+  }
+
+  return { routes, nodesVisited, edgesExplored };
+}
+
+// Share of a route's length that runs over edges of the best route (in either direction)
+const overlapWithBest = (graph: Graph, nodeIds: string[], bestIds: string[]): number => {
+  const bestEdges = new Set<string>();
+  for (let i = 1; i < bestIds.length; i++) {
+    bestEdges.add(`${bestIds[i - 1]}->${bestIds[i]}`);
+    bestEdges.add(`${bestIds[i]}->${bestIds[i - 1]}`);
+  }
+  let shared = 0;
+  let total = 0;
+  for (let i = 1; i < nodeIds.length; i++) {
+    const weight = edgeWeight(graph, nodeIds[i - 1], nodeIds[i]);
+    total += weight;
+    if (bestEdges.has(`${nodeIds[i - 1]}->${nodeIds[i]}`)) shared += weight;
+  }
+  return total > 0 ? shared / total : 1;
+};
+
+// K Shortest Paths Implementation
+export async function kShortestPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  k: number = DEFAULT_K
+): Promise<KShortestPathsResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const { routes, nodesVisited, edgesExplored } = await yenKShortestPaths(
+    graph,
+    startNode.osmid,
+    endNode.osmid,
+    Math.max(1, Math.min(k, MAX_K))
+  );
+  if (routes.length === 0) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  const toCoordinates = (nodeIds: string[]) =>
+    nodeIds.map((id) => {
+      const node = graph.nodes.get(id)!;
+      return [node.lng, node.lat];
+    });
+  const alternatives = routes.map((route) => ({
+    path: toCoordinates(route.nodeIds),
+    distance: route.cost / 1000,
+    overlap: overlapWithBest(graph, route.nodeIds, routes[0].nodeIds),
+  }));
+  const best = alternatives[0];
+
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path: best.path,
+    distance: best.distance,
+    time: executionTime,
+    nodesVisited,
+    visitedNodes: [],
+    edgesExplored,
+    pathNodeCount: best.path.length,
+    alternatives,
+  };
+}
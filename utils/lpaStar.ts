@@ -0,0 +1,246 @@
+// utils/lpaStar.ts
+// Lifelong Planning A* (Koenig, Likhachev & Furcy, 2004). A forward A* that keeps
+// its g/rhs values on the search object, so re-querying the same start/goal pair
+// after edge weight changes only reconsiders the vertices those changes affect.
+// D* Lite is the same idea run backwards from the goal to allow a moving start.
+import { Graph, haversineDistance } from './algorithms';
+import {
+  EdgeChange,
+  IncrementalPathfindingResult,
+  IncrementalPlanner,
+  PlanStats,
+  PlannedRoute,
+  edgeKey,
+  runIncrementalPathfinding,
+} from './dStarLite';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+export interface LpaUpdateStats {
+  changedEdges: number;
+  nodesVisited: number; // expansions needed to re-answer the query
+  reconsistentVertices: number; // distinct vertices whose g value was reset
+  time: number; // milliseconds
+}
+
+export interface LpaStarResult extends IncrementalPathfindingResult {
+  updates: LpaUpdateStats[];
+}
+
+type Key = [number, number];
+
+const compareKeys = (a: Key, b: Key): number => {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  if (a[1] !== b[1]) return a[1] < b[1] ? -1 : 1;
+  return 0;
+};
+
+const EPSILON = 1e-9;
+
+export class LPAStar implements IncrementalPlanner {
+  private g = new Map<string, number>();
+  private rhs = new Map<string, number>();
+  private open = new IndexedHeap<Key>(compareKeys);
+  private predecessors = new Map<string, { source: string; weight: number }[]>();
+  private costOverrides = new Map<string, number>();
+  private pendingChanges = 0;
+  private planned = false;
+  readonly updates: LpaUpdateStats[] = [];
+
+  constructor(
+    private graph: Graph,
+    private start: string,
+    private goal: string,
+    initialChanges: EdgeChange[] = []
+  ) {
+    for (const [source, edgeList] of graph.edges.entries()) {
+      for (const edge of edgeList) {
+        if (!this.predecessors.has(edge.target)) this.predecessors.set(edge.target, []);
+        this.predecessors.get(edge.target)!.push({ source, weight: edge.weight });
+      }
+    }
+    for (const change of initialChanges) {
+      this.costOverrides.set(edgeKey(change.source, change.target), change.weight);
+    }
+    this.rhs.set(start, 0);
+    this.open.push(start, this.calculateKey(start));
+  }
+
+  // Only the head of the changed edge can change its rhs value
+  updateEdge(source: string, target: string, weight: number) {
+    const exists = (this.graph.edges.get(source) || []).some((e) => e.target === target);
+    if (!exists) {
+      console.warn(`LPA*: ignoring change to unknown edge ${source}-${target}`);
+      return;
+    }
+    this.costOverrides.set(edgeKey(source, target), weight);
+    if (target !== this.start) {
+      this.rhs.set(target, this.bestPredecessorCost(target));
+    }
+    this.updateVertex(target);
+    this.pendingChanges++;
+  }
+
+  // Applies a batch of changes and re-answers the query from the kept search state
+  async update(
+    changes: EdgeChange[]
+  ): Promise<{ route: PlannedRoute | null; stats: LpaUpdateStats }> {
+    for (const change of changes) {
+      this.updateEdge(change.source, change.target, change.weight);
+    }
+    await this.plan();
+    return { route: this.getRoute(), stats: this.updates[this.updates.length - 1] };
+  }
+
+  async plan(): Promise<PlanStats> {
+    const planStart = busyClock();
+    const stats: PlanStats = { nodesVisited: 0, edgesExplored: 0, visitedIds: [] };
+    const reset = new Set<string>();
+
+    while (!this.open.isEmpty()) {
+      await checkpoint();
+      const top = this.open.peek()!;
+      const goalConsistent = this.getRhs(this.goal) === this.getG(this.goal);
+      if (compareKeys(top.priority, this.calculateKey(this.goal)) >= 0 && goalConsistent) break;
+
+      const u = top.id;
+      this.open.pop();
+      stats.nodesVisited++;
+      stats.visitedIds.push(u);
+      reset.add(u);
+      const edges = this.graph.edges.get(u) || [];
+      stats.edgesExplored += edges.length;
+
+      if (this.getG(u) > this.getRhs(u)) {
+        // Overconsistent: lower g and offer the shorter distance to successors
+        this.g.set(u, this.getRhs(u));
+        for (const edge of edges) {
+          if (edge.target === this.start) continue;
+          const candidate = this.getG(u) + this.cost(u, edge.target, edge.weight);
+          if (candidate < this.getRhs(edge.target)) this.rhs.set(edge.target, candidate);
+          this.updateVertex(edge.target);
+        }
+      } else {
+        // Underconsistent: invalidate g and recompute successors that relied on it
+        const gOld = this.getG(u);
+        this.g.set(u, Infinity);
+        for (const edge of edges) {
+          if (edge.target === this.start) continue;
+          const viaU = gOld + this.cost(u, edge.target, edge.weight);
+          if (Math.abs(this.getRhs(edge.target) - viaU) < EPSILON) {
+            this.rhs.set(edge.target, this.bestPredecessorCost(edge.target));
+          }
+          this.updateVertex(edge.target);
+        }
+        this.updateVertex(u);
+      }
+    }
+
+    // The first call is the initial search; every later call with changes answers an update
+    if (this.planned && this.pendingChanges > 0) {
+      this.updates.push({
+        changedEdges: this.pendingChanges,
+        nodesVisited: stats.nodesVisited,
+        reconsistentVertices: reset.size,
+        time: busyClock() - planStart,
+      });
+    }
+    this.planned = true;
+    this.pendingChanges = 0;
+
+    return stats;
+  }
+
+  // Walks back from the goal along the predecessor that realises each g value
+  getRoute(): PlannedRoute | null {
+    if (this.getG(this.goal) === Infinity) return null;
+
+    const nodeIds = [this.goal];
+    let cost = 0;
+    let current = this.goal;
+    while (current !== this.start) {
+      let previous: string | null = null;
+      let previousCost = Infinity;
+      let stepCost = Infinity;
+      for (const pred of this.predecessors.get(current) || []) {
+        const c = this.cost(pred.source, current, pred.weight);
+        if (this.getG(pred.source) + c < previousCost) {
+          previousCost = this.getG(pred.source) + c;
+          stepCost = c;
+          previous = pred.source;
+        }
+      }
+      if (
+        previous === null ||
+        previousCost === Infinity ||
+        nodeIds.length > this.graph.nodes.size
+      ) {
+        return null;
+      }
+      nodeIds.unshift(previous);
+      cost += stepCost;
+      current = previous;
+    }
+    return { nodeIds, cost };
+  }
+
+  private getG(id: string): number {
+    return this.g.get(id) ?? Infinity;
+  }
+
+  private getRhs(id: string): number {
+    return this.rhs.get(id) ?? Infinity;
+  }
+
+  private cost(source: string, target: string, weight: number): number {
+    return this.costOverrides.get(edgeKey(source, target)) ?? weight;
+  }
+
+  private heuristic(id: string): number {
+    const node = this.graph.nodes.get(id);
+    const goalNode = this.graph.nodes.get(this.goal);
+    return node && goalNode ? haversineDistance(node, goalNode) : 0;
+  }
+
+  private calculateKey(id: string): Key {
+    const m = Math.min(this.getG(id), this.getRhs(id));
+    return [m + this.heuristic(id), m];
+  }
+
+  private bestPredecessorCost(id: string): number {
+    let best = Infinity;
+    for (const pred of this.predecessors.get(id) || []) {
+      const candidate = this.getG(pred.source) + this.cost(pred.source, id, pred.weight);
+      if (candidate < best) best = candidate;
+    }
+    return best;
+  }
+
+  private updateVertex(id: string) {
+    if (this.getG(id) !== this.getRhs(id)) {
+      this.open.push(id, this.calculateKey(id));
+    } else {
+      this.open.remove(id);
+    }
+  }
+}
+
+// LPA* Implementation. `baseGraph` is `graph` before closures and zones.
+export async function lpaStarPathfinding(
+  baseGraph: Graph,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<LpaStarResult> {
+  const { result, planner } = await runIncrementalPathfinding(
+    'LPA*',
+    baseGraph,
+    graph,
+    start,
+    end,
+    (startId, goalId, changes) => new LPAStar(baseGraph, startId, goalId, changes)
+  );
+  // The update this query made, when edges changed since the planner's last query
+  const updates = result.replan ? planner.updates.slice(-1) : [];
+  return { ...result, updates };
+}
@@ -0,0 +1,374 @@
+// utils/memoryBounded.ts
+// Memory-bounded informed search. IDA* keeps only the current path plus a
+// transposition table capped at the node budget; SMA* (Russell, 1992) runs A* on
+// a search tree that never holds more than the budget, forgetting its worst
+// leaves and remembering their f values in the parent. Both trade repeated work
+// for memory, which is what the peak-stored-nodes metric is meant to show.
+import { Graph, PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+
+export const DEFAULT_NODE_BUDGET = 2000;
+export const nodeBudgets = [250, 500, 1000, 2000, 5000, 10000];
+
+// Both searches can revisit nodes many times; give up rather than freeze the UI
+const MAX_EXPANSIONS = 500000;
+
+// Minimum factor between IDA* thresholds. Road distances are real-valued, so the
+// textbook "smallest f that exceeded the bound" only uncovers a node or two per
+// iteration; growing geometrically keeps the number of iterations logarithmic.
+const THRESHOLD_GROWTH = 1.05;
+
+export interface MemoryBoundedResult extends PathfindingResult {
+  peakStoredNodes: number;
+  nodeBudget: number;
+  iterations?: number; // f thresholds tried (IDA* only)
+}
+
+const resolveEndpoints = (
+  name: string,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  nodeBudget: number
+) => {
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+  if (nodeBudget < 2) {
+    throw new Error('Node budget must allow at least two stored nodes.');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const h = (id: string) => haversineDistance(graph.nodes.get(id)!, endNode);
+  return { startNode, endNode, h };
+};
+
+const finish = (
+  name: string,
+  graph: Graph,
+  nodeIds: string[],
+  cost: number,
+  startTime: number,
+  stats: {
+    nodesVisited: number;
+    edgesExplored: number;
+    visitedIds: Set<string>;
+    peakStoredNodes: number;
+  },
+  nodeBudget: number,
+  iterations?: number
+): MemoryBoundedResult => {
+  const toCoordinates = (id: string) => {
+    const node = graph.nodes.get(id)!;
+    return [node.lng, node.lat];
+  };
+  const path = nodeIds.map(toCoordinates);
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: cost / 1000,
+    time: executionTime,
+    nodesVisited: stats.nodesVisited,
+    visitedNodes: [...stats.visitedIds].map(toCoordinates),
+    edgesExplored: stats.edgesExplored,
+    pathNodeCount: path.length,
+    peakStoredNodes: stats.peakStoredNodes,
+    nodeBudget,
+    iterations,
+  };
+};
+
+// IDA* Implementation
+// Depth-first contours of increasing f. Within one contour a vertex reached again
+// with no better g is pruned, using a table of at most nodeBudget entries; once the
+// table is full the search falls back to plain IDA* for new vertices. Because a
+// contour can overshoot the optimum, the contour that first reaches the goal is
+// searched to the end with branch-and-bound, which keeps the result optimal.
+export async function idaStarPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  nodeBudget: number = DEFAULT_NODE_BUDGET
+): Promise<MemoryBoundedResult> {
+  const startTime = busyClock();
+  const { startNode, endNode, h } = resolveEndpoints('IDA*', graph, start, end, nodeBudget);
+  const goal = endNode.osmid;
+
+  const stats = {
+    nodesVisited: 0,
+    edgesExplored: 0,
+    visitedIds: new Set<string>(),
+    peakStoredNodes: 0,
+  };
+  let threshold = h(startNode.osmid);
+  let iterations = 0;
+
+  while (threshold < Infinity) {
+    iterations++;
+    let nextThreshold = Infinity;
+    let bestCost = Infinity;
+    let bestPath: string[] | null = null;
+    const bestG = new Map<string, number>([[startNode.osmid, 0]]);
+    const onPath = new Set<string>([startNode.osmid]);
+    const stack: { id: string; g: number; edgeIndex: number; expanded: boolean }[] = [
+      { id: startNode.osmid, g: 0, edgeIndex: 0, expanded: false },
+    ];
+
+    while (stack.length > 0) {
+      await checkpoint();
+      const frame = stack[stack.length - 1];
+
+      if (!frame.expanded) {
+        const f = frame.g + h(frame.id);
+        if (f > threshold || f >= bestCost) {
+          if (f > threshold) nextThreshold = Math.min(nextThreshold, f);
+          stack.pop();
+          onPath.delete(frame.id);
+          continue;
+        }
+        if (frame.id === goal) {
+          bestCost = frame.g;
+          bestPath = stack.map((entry) => entry.id);
+          stack.pop();
+          onPath.delete(frame.id);
+          continue;
+        }
+        frame.expanded = true;
+        stats.nodesVisited++;
+        stats.visitedIds.add(frame.id);
+        // Path frames plus transposition entries
+        stats.peakStoredNodes = Math.max(stats.peakStoredNodes, stack.length + bestG.size);
+        if (stats.nodesVisited > MAX_EXPANSIONS) {
+          throw new Error(
+            `IDA* gave up after ${MAX_EXPANSIONS} expansions; try a larger node budget.`
+          );
+        }
+      }
+
+      const edges = graph.edges.get(frame.id) || [];
+      if (frame.edgeIndex >= edges.length) {
+        stack.pop();
+        onPath.delete(frame.id);
+        continue;
+      }
+
+      const edge = edges[frame.edgeIndex++];
+      stats.edgesExplored++;
+      if (onPath.has(edge.target)) continue;
+      const g = frame.g + edge.weight;
+      const seen = bestG.get(edge.target);
+      if (seen !== undefined && seen <= g) continue;
+      if (seen !== undefined || bestG.size < nodeBudget) bestG.set(edge.target, g);
+      onPath.add(edge.target);
+      stack.push({ id: edge.target, g, edgeIndex: 0, expanded: false });
+    }
+
+    if (bestPath) {
+      return finish('IDA*', graph, bestPath, bestCost, startTime, stats, nodeBudget, iterations);
+    }
+    threshold = Math.max(nextThreshold, threshold * THRESHOLD_GROWTH);
+  }
+
+  throw new Error('No path found between start and end nodes.');
+}
+
+interface TreeNode {
+  key: string;
+  id: string;
+  parent: TreeNode | null;
+  g: number;
+  f: number;
+  depth: number;
+  children: Map<string, TreeNode>;
+  // Successors not currently in memory: undefined if never generated, otherwise
+  // the f value the forgotten subtree had backed up
+  pending: Map<string, number | undefined>;
+  weights: Map<string, number>;
+}
+
+type Rank = [number, number]; // [f, depth]
+
+// OPEN: lowest f first, deepest on ties
+const compareOpen = (a: Rank, b: Rank): number => {
+  if (a[0] !== b[0]) return a[0] < b[0] ? -1 : 1;
+  return b[1] - a[1];
+};
+
+// Deletion candidates: highest f first, shallowest on ties
+const compareWorst = (a: Rank, b: Rank): number => {
+  if (a[0] !== b[0]) return a[0] > b[0] ? -1 : 1;
+  return a[1] - b[1];
+};
+
+// SMA* Implementation
+export async function smaStarPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  nodeBudget: number = DEFAULT_NODE_BUDGET
+): Promise<MemoryBoundedResult> {
+  const startTime = busyClock();
+  const { startNode, endNode, h } = resolveEndpoints('SMA*', graph, start, end, nodeBudget);
+  const goal = endNode.osmid;
+
+  const stats = {
+    nodesVisited: 0,
+    edgesExplored: 0,
+    visitedIds: new Set<string>(),
+    peakStoredNodes: 1,
+  };
+  const nodes = new Map<string, TreeNode>();
+  const open = new IndexedHeap<Rank>(compareOpen);
+  const leaves = new IndexedHeap<Rank>(compareWorst);
+  // Cheapest copy of each vertex in memory; the tree would otherwise store every
+  // route to a junction separately
+  const cheapest = new Map<string, TreeNode>();
+  let nextKey = 0;
+
+  const isAncestor = (node: TreeNode, id: string) => {
+    for (let current: TreeNode | null = node; current; current = current.parent) {
+      if (current.id === id) return true;
+    }
+    return false;
+  };
+
+  const createNode = (id: string, parent: TreeNode | null, g: number, f: number): TreeNode => {
+    const node: TreeNode = {
+      key: `${nextKey++}`,
+      id,
+      parent,
+      g,
+      f,
+      depth: parent ? parent.depth + 1 : 0,
+      children: new Map(),
+      pending: new Map(),
+      weights: new Map(),
+    };
+    if (id !== goal) {
+      for (const edge of graph.edges.get(id) || []) {
+        if (parent && isAncestor(parent, edge.target)) continue;
+        if (edge.target === id) continue;
+        const weight = node.weights.get(edge.target);
+        if (weight === undefined || edge.weight < weight)
+          node.weights.set(edge.target, edge.weight);
+        node.pending.set(edge.target, undefined);
+      }
+    }
+    nodes.set(node.key, node);
+    return node;
+  };
+
+  const refresh = (node: TreeNode) => {
+    if (node.pending.size > 0 || node.id === goal) open.push(node.key, [node.f, node.depth]);
+    else open.remove(node.key);
+    if (node.children.size === 0) leaves.push(node.key, [node.f, node.depth]);
+    else leaves.remove(node.key);
+  };
+
+  // Once every successor has been generated, f is the best of the children and
+  // forgotten subtrees; the change can ripple up to the root
+  const backUp = (node: TreeNode) => {
+    for (let current: TreeNode | null = node; current; current = current.parent) {
+      let best = Infinity;
+      for (const value of current.pending.values()) {
+        if (value === undefined) return;
+        best = Math.min(best, value);
+      }
+      for (const child of current.children.values()) best = Math.min(best, child.f);
+      if (best === current.f) return;
+      current.f = best;
+      refresh(current);
+    }
+  };
+
+  const root = createNode(startNode.osmid, null, 0, h(startNode.osmid));
+  refresh(root);
+
+  while (true) {
+    await checkpoint();
+    const top = open.peek();
+    const best = top ? nodes.get(top.id)! : null;
+    if (!best || best.f === Infinity) {
+      throw new Error('No path found between start and end nodes within the node budget.');
+    }
+    if (best.id === goal) {
+      const nodeIds: string[] = [];
+      for (let current: TreeNode | null = best; current; current = current.parent)
+        nodeIds.unshift(current.id);
+      return finish('SMA*', graph, nodeIds, best.g, startTime, stats, nodeBudget);
+    }
+
+    stats.nodesVisited++;
+    stats.visitedIds.add(best.id);
+    if (stats.nodesVisited > MAX_EXPANSIONS) {
+      throw new Error(`SMA* gave up after ${MAX_EXPANSIONS} expansions; try a larger node budget.`);
+    }
+
+    // Next successor: a never-generated one first, otherwise the most promising forgotten one
+    let successor: string | null = null;
+    let forgotten: number | undefined;
+    for (const [id, value] of best.pending) {
+      if (value === undefined) {
+        successor = id;
+        forgotten = undefined;
+        break;
+      }
+      if (successor === null || value < forgotten!) {
+        successor = id;
+        forgotten = value;
+      }
+    }
+    best.pending.delete(successor!);
+    stats.edgesExplored++;
+
+    const g = best.g + best.weights.get(successor!)!;
+    const existing = cheapest.get(successor!);
+    if (existing && existing.g <= g) {
+      // Dominated by a route already in memory (or remembered by its ancestors)
+      refresh(best);
+      backUp(best);
+      continue;
+    }
+    const depth = best.depth + 1;
+    // A non-goal node at the memory limit can never be extended, so it is useless
+    const f =
+      successor !== goal && depth >= nodeBudget - 1
+        ? Infinity
+        : Math.max(best.f, g + h(successor!), forgotten ?? 0);
+    const child = createNode(successor!, best, g, f);
+    cheapest.set(successor!, child);
+    best.children.set(successor!, child);
+    refresh(best);
+    backUp(best);
+
+    // Over budget: forget the worst leaf other than the node just expanded
+    if (nodes.size > nodeBudget) {
+      const skipped: TreeNode[] = [];
+      let victim = nodes.get(leaves.pop()?.id ?? '');
+      while (victim && (victim === best || victim === root)) {
+        skipped.push(victim);
+        victim = nodes.get(leaves.pop()?.id ?? '');
+      }
+      for (const node of skipped) leaves.push(node.key, [node.f, node.depth]);
+      if (victim) {
+        const parent = victim.parent!;
+        open.remove(victim.key);
+        nodes.delete(victim.key);
+        if (cheapest.get(victim.id) === victim) cheapest.delete(victim.id);
+        parent.children.delete(victim.id);
+        parent.pending.set(victim.id, victim.f);
+        refresh(parent);
+      }
+    }
+
+    refresh(child);
+    stats.peakStoredNodes = Math.max(stats.peakStoredNodes, nodes.size);
+  }
+}
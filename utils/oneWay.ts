@@ -0,0 +1,74 @@
+// utils/oneWay.ts
+// Direction rules for OSMnx edge exports. OSMnx already orients one-way streets so
+// that u → v is the legal direction (oneway=-1 ways are flipped and marked
+// `reversed`), and it may export a two-way street as one feature or as a u → v
+// and v → u pair. The graph is therefore directed: a reverse edge is added only
+// for two-way streets whose opposite direction is not already its own feature.
+import { Edge, Graph } from './algorithms';
+import { reverseGeometry } from './edgeGeometry';
+
+const TRUE_VALUES = new Set(['true', 'yes', '1', '-1']);
+
+// OSMnx writes booleans, but merged edges and older exports carry strings or lists
+const parseFlag = (value: unknown): boolean => {
+  if (Array.isArray(value)) return value.some(parseFlag);
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  if (typeof value === 'string') {
+    const trimmed = value.trim().toLowerCase();
+    if (trimmed.startsWith('[')) return trimmed.slice(1, -1).split(',').some(parseFlag);
+    return TRUE_VALUES.has(trimmed);
+  }
+  return false;
+};
+
+export const isOneWay = (properties: { oneway?: unknown }): boolean => parseFlag(properties.oneway);
+
+// Keys of every direction that appears as its own feature
+export function featureDirections(
+  features: { properties?: { u?: unknown; v?: unknown } }[]
+): Set<string> {
+  const directions = new Set<string>();
+  for (const feature of features) {
+    const { u, v } = feature.properties || {};
+    if (u !== undefined && v !== undefined) directions.add(`${u}->${v}`);
+  }
+  return directions;
+}
+
+// Whether a synthetic v → u edge should be added for this feature
+export const allowsReverse = (
+  properties: { u?: unknown; v?: unknown; oneway?: unknown },
+  directions: Set<string>
+): boolean => !isOneWay(properties) && !directions.has(`${properties.v}->${properties.u}`);
+
+// The same network with one-way rules lifted, for comparing routes with and
+// without them. Every edge gains a reverse twin unless one already exists.
+const undirectedGraphs = new WeakMap<Graph, Graph>();
+
+export function ignoreOneWay(graph: Graph): Graph {
+  const cached = undirectedGraphs.get(graph);
+  if (cached) return cached;
+
+  const edges = new Map<string, Edge[]>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    edges.set(source, [...edgeList]);
+  }
+  for (const [source, edgeList] of graph.edges.entries()) {
+    for (const edge of edgeList) {
+      const back = graph.edges.get(edge.target) || [];
+      if (back.some((e) => e.target === source)) continue;
+      if (!edges.has(edge.target)) edges.set(edge.target, []);
+      edges.get(edge.target)!.push({
+        ...edge,
+        source: edge.target,
+        target: source,
+        geometry: edge.geometry && reverseGeometry(edge.geometry),
+      });
+    }
+  }
+
+  const undirected = { nodes: graph.nodes, edges };
+  undirectedGraphs.set(graph, undirected);
+  return undirected;
+}
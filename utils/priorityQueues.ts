@@ -0,0 +1,479 @@
+// utils/priorityQueues.ts
+// Interchangeable min-priority queues of node ids for Dijkstra, A*, GBFS and the
+// bidirectional searches. The heaps lower the priority of an id that is already
+// queued instead of adding a second entry (decrease-key); the radix heap does so
+// lazily and drops the outdated entry when it reaches it. The sorted array keeps
+// both entries, so callers still skip ids they have already settled.
+import { IndexedHeap } from './indexedHeap';
+
+export type QueueKind = 'binary' | 'pairing' | 'fibonacci' | 'radix' | 'sorted-array';
+
+export const queueKinds: { id: QueueKind; name: string }[] = [
+  { id: 'binary', name: 'Binary heap' },
+  { id: 'pairing', name: 'Pairing heap' },
+  { id: 'fibonacci', name: 'Fibonacci heap' },
+  { id: 'radix', name: 'Radix heap' },
+  { id: 'sorted-array', name: 'Sorted array' },
+];
+
+export const DEFAULT_QUEUE: QueueKind = 'binary';
+
+export interface PriorityQueue {
+  readonly size: number;
+  isEmpty(): boolean;
+  // Queues the id, or lowers its priority if it is queued at a higher one
+  push(id: string, priority: number): void;
+  pop(): string | undefined;
+  peek(): string | undefined;
+  peekPriority(): number; // Infinity when empty
+}
+
+const compareNumbers = (a: number, b: number): number => (a < b ? -1 : a > b ? 1 : 0);
+
+class BinaryHeapQueue implements PriorityQueue {
+  private heap = new IndexedHeap<number>(compareNumbers);
+  private priorities = new Map<string, number>();
+
+  get size(): number {
+    return this.heap.size;
+  }
+
+  isEmpty(): boolean {
+    return this.heap.isEmpty();
+  }
+
+  push(id: string, priority: number) {
+    const queued = this.priorities.get(id);
+    if (queued !== undefined && queued <= priority) return;
+    this.priorities.set(id, priority);
+    this.heap.push(id, priority);
+  }
+
+  pop(): string | undefined {
+    const top = this.heap.pop();
+    if (top) this.priorities.delete(top.id);
+    return top?.id;
+  }
+
+  peek(): string | undefined {
+    return this.heap.peek()?.id;
+  }
+
+  peekPriority(): number {
+    return this.heap.peek()?.priority ?? Infinity;
+  }
+}
+
+interface PairingNode {
+  id: string;
+  priority: number;
+  child: PairingNode | null;
+  sibling: PairingNode | null;
+  prev: PairingNode | null; // parent for a first child, otherwise the left sibling
+}
+
+// Pairing heap (Fredman et al., 1986): O(1) insert and decrease-key, O(log n) amortized pop
+class PairingHeapQueue implements PriorityQueue {
+  private root: PairingNode | null = null;
+  private nodes = new Map<string, PairingNode>();
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  isEmpty(): boolean {
+    return this.root === null;
+  }
+
+  push(id: string, priority: number) {
+    const node = this.nodes.get(id);
+    if (!node) {
+      const created: PairingNode = { id, priority, child: null, sibling: null, prev: null };
+      this.nodes.set(id, created);
+      this.root = this.meld(this.root, created);
+      return;
+    }
+    if (node.priority <= priority) return;
+    node.priority = priority;
+    if (node === this.root) return;
+    this.detach(node);
+    this.root = this.meld(this.root, node);
+  }
+
+  pop(): string | undefined {
+    const root = this.root;
+    if (!root) return undefined;
+    this.nodes.delete(root.id);
+    this.root = this.mergePairs(root.child);
+    if (this.root) this.root.prev = null;
+    return root.id;
+  }
+
+  peek(): string | undefined {
+    return this.root?.id;
+  }
+
+  peekPriority(): number {
+    return this.root?.priority ?? Infinity;
+  }
+
+  private meld(a: PairingNode | null, b: PairingNode | null): PairingNode | null {
+    if (!a) return b;
+    if (!b) return a;
+    const [parent, child] = b.priority < a.priority ? [b, a] : [a, b];
+    child.prev = parent;
+    child.sibling = parent.child;
+    if (parent.child) parent.child.prev = child;
+    parent.child = child;
+    parent.sibling = null;
+    parent.prev = null;
+    return parent;
+  }
+
+  // Cuts the node, with its subtree, out of its parent's child list
+  private detach(node: PairingNode) {
+    if (node.prev) {
+      if (node.prev.child === node) node.prev.child = node.sibling;
+      else node.prev.sibling = node.sibling;
+    }
+    if (node.sibling) node.sibling.prev = node.prev;
+    node.sibling = null;
+    node.prev = null;
+  }
+
+  // Two-pass merge: meld siblings in pairs left to right, then fold the pairs right to left
+  private mergePairs(first: PairingNode | null): PairingNode | null {
+    const pairs: PairingNode[] = [];
+    let node = first;
+    while (node) {
+      const a = node;
+      const b = node.sibling;
+      node = b ? b.sibling : null;
+      a.sibling = null;
+      a.prev = null;
+      if (b) {
+        b.sibling = null;
+        b.prev = null;
+      }
+      pairs.push(this.meld(a, b)!);
+    }
+    let merged: PairingNode | null = null;
+    for (let i = pairs.length - 1; i >= 0; i--) merged = this.meld(pairs[i], merged);
+    return merged;
+  }
+}
+
+interface FibonacciNode {
+  id: string;
+  priority: number;
+  parent: FibonacciNode | null;
+  child: FibonacciNode | null;
+  left: FibonacciNode;
+  right: FibonacciNode;
+  degree: number;
+  marked: boolean;
+}
+
+// Fibonacci heap (Fredman & Tarjan, 1987): O(1) amortized insert and decrease-key,
+// O(log n) amortized pop. Roots and siblings are circular doubly linked lists.
+class FibonacciHeapQueue implements PriorityQueue {
+  private min: FibonacciNode | null = null;
+  private nodes = new Map<string, FibonacciNode>();
+
+  get size(): number {
+    return this.nodes.size;
+  }
+
+  isEmpty(): boolean {
+    return this.min === null;
+  }
+
+  push(id: string, priority: number) {
+    const node = this.nodes.get(id);
+    if (!node) {
+      const created = {
+        id,
+        priority,
+        parent: null,
+        child: null,
+        degree: 0,
+        marked: false,
+      } as FibonacciNode;
+      created.left = created;
+      created.right = created;
+      this.nodes.set(id, created);
+      this.addRoot(created);
+      return;
+    }
+    if (node.priority <= priority) return;
+    node.priority = priority;
+    const parent = node.parent;
+    if (parent && node.priority < parent.priority) {
+      this.cut(node, parent);
+      this.cascadingCut(parent);
+    }
+    if (node.priority < this.min!.priority) this.min = node;
+  }
+
+  pop(): string | undefined {
+    const min = this.min;
+    if (!min) return undefined;
+    this.nodes.delete(min.id);
+
+    // The minimum's children become roots
+    let child = min.child;
+    for (let i = 0; i < min.degree; i++) {
+      const next: FibonacciNode = child!.right;
+      child!.parent = null;
+      child!.marked = false;
+      this.splice(child!, min);
+      child = next;
+    }
+    min.child = null;
+
+    if (min.right === min) {
+      this.min = null;
+    } else {
+      this.min = min.right;
+      this.unlink(min);
+      this.consolidate();
+    }
+    return min.id;
+  }
+
+  peek(): string | undefined {
+    return this.min?.id;
+  }
+
+  peekPriority(): number {
+    return this.min?.priority ?? Infinity;
+  }
+
+  private addRoot(node: FibonacciNode) {
+    if (!this.min) {
+      node.left = node;
+      node.right = node;
+      this.min = node;
+      return;
+    }
+    this.splice(node, this.min);
+    if (node.priority < this.min.priority) this.min = node;
+  }
+
+  // Inserts a lone node to the right of `anchor` in anchor's list
+  private splice(node: FibonacciNode, anchor: FibonacciNode) {
+    node.left = anchor;
+    node.right = anchor.right;
+    anchor.right.left = node;
+    anchor.right = node;
+  }
+
+  private unlink(node: FibonacciNode) {
+    node.left.right = node.right;
+    node.right.left = node.left;
+    node.left = node;
+    node.right = node;
+  }
+
+  // Links roots of equal degree until every root has a distinct degree
+  private consolidate() {
+    const byDegree: (FibonacciNode | undefined)[] = [];
+    const roots: FibonacciNode[] = [];
+    let node = this.min!;
+    do {
+      roots.push(node);
+      node = node.right;
+    } while (node !== this.min);
+
+    for (let root of roots) {
+      let degree = root.degree;
+      while (byDegree[degree]) {
+        let other = byDegree[degree]!;
+        if (other.priority < root.priority) [root, other] = [other, root];
+        this.link(other, root);
+        byDegree[degree] = undefined;
+        degree++;
+      }
+      byDegree[degree] = root;
+    }
+
+    this.min = null;
+    for (const root of byDegree) {
+      if (!root) continue;
+      root.left = root;
+      root.right = root;
+      this.addRoot(root);
+    }
+  }
+
+  private link(child: FibonacciNode, parent: FibonacciNode) {
+    this.unlink(child);
+    child.parent = parent;
+    child.marked = false;
+    if (parent.child) this.splice(child, parent.child);
+    else parent.child = child;
+    parent.degree++;
+  }
+
+  private cut(node: FibonacciNode, parent: FibonacciNode) {
+    if (parent.child === node) parent.child = node.right === node ? null : node.right;
+    this.unlink(node);
+    parent.degree--;
+    node.parent = null;
+    node.marked = false;
+    this.splice(node, this.min!);
+  }
+
+  private cascadingCut(node: FibonacciNode) {
+    const parent = node.parent;
+    if (!parent) return;
+    if (!node.marked) {
+      node.marked = true;
+      return;
+    }
+    this.cut(node, parent);
+    this.cascadingCut(parent);
+  }
+}
+
+const RADIX_BUCKETS = 33;
+
+// Radix heap (Ahuja et al., 1990), a multi-level version of Dial's buckets. Entries
+// sit in the bucket of the highest bit where the integer part of their priority
+// differs from the last minimum, so when priorities never drop below the last one
+// popped, each entry moves between buckets at most 32 times. Bucket 0 holds the
+// entries that share the last minimum's integer part and is searched in full, which
+// keeps the order exact; priorities below the last minimum (GBFS, inconsistent
+// heuristics) also go there, so they stay correct but lose the speedup. Priorities
+// are offset by the first one queued and must stay under 2^31 above it.
+class RadixHeapQueue implements PriorityQueue {
+  private buckets: { id: string; key: number }[][] = Array.from(
+    { length: RADIX_BUCKETS },
+    () => []
+  );
+  private queued = new Map<string, number>(); // current key of each queued id
+  private origin: number | null = null;
+  private last = 0;
+
+  get size(): number {
+    return this.queued.size;
+  }
+
+  isEmpty(): boolean {
+    return this.queued.size === 0;
+  }
+
+  push(id: string, priority: number) {
+    if (this.origin === null) this.origin = priority;
+    const key = priority - this.origin;
+    const queued = this.queued.get(id);
+    if (queued !== undefined && queued <= key) return;
+    this.queued.set(id, key);
+    this.buckets[this.bucketOf(key)].push({ id, key });
+  }
+
+  pop(): string | undefined {
+    const index = this.minIndex();
+    if (index < 0) return undefined;
+    const bucket = this.buckets[0];
+    const { id } = bucket[index];
+    bucket[index] = bucket[bucket.length - 1];
+    bucket.pop();
+    this.queued.delete(id);
+    return id;
+  }
+
+  peek(): string | undefined {
+    const index = this.minIndex();
+    return index < 0 ? undefined : this.buckets[0][index].id;
+  }
+
+  peekPriority(): number {
+    const index = this.minIndex();
+    return index < 0 ? Infinity : this.buckets[0][index].key + this.origin!;
+  }
+
+  private bucketOf(key: number): number {
+    if (key <= this.last) return 0;
+    const diff = Math.floor(key) ^ Math.floor(this.last);
+    return diff === 0 ? 0 : 32 - Math.clz32(diff);
+  }
+
+  private isCurrent(entry: { id: string; key: number }): boolean {
+    return this.queued.get(entry.id) === entry.key;
+  }
+
+  // Index in bucket 0 of the smallest current entry, refilling bucket 0 from the
+  // first non-empty bucket when it runs out; -1 when the queue is empty
+  private minIndex(): number {
+    while (true) {
+      const bucket = this.buckets[0];
+      let best = -1;
+      for (let i = bucket.length - 1; i >= 0; i--) {
+        if (!this.isCurrent(bucket[i])) {
+          bucket[i] = bucket[bucket.length - 1];
+          bucket.pop();
+          if (best === bucket.length) best = i;
+        } else if (best < 0 || bucket[i].key < bucket[best].key) {
+          best = i;
+        }
+      }
+      if (best >= 0) return best;
+      if (this.queued.size === 0) return -1;
+
+      const next = this.buckets.findIndex(
+        (candidate, i) => i > 0 && candidate.some((entry) => this.isCurrent(entry))
+      );
+      if (next < 0) return -1;
+      const entries = this.buckets[next].filter((entry) => this.isCurrent(entry));
+      this.buckets[next] = [];
+      this.last = entries.reduce((min, entry) => Math.min(min, entry.key), Infinity);
+      entries.forEach((entry) => this.buckets[this.bucketOf(entry.key)].push(entry));
+    }
+  }
+}
+
+// The original queue, re-sorted on every push; kept as the benchmark baseline
+class SortedArrayQueue implements PriorityQueue {
+  private items: { element: string; priority: number }[] = [];
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  isEmpty(): boolean {
+    return this.items.length === 0;
+  }
+
+  push(element: string, priority: number) {
+    this.items.push({ element, priority });
+    this.items.sort((a, b) => a.priority - b.priority); // Sort by priority (ascending)
+  }
+
+  pop(): string | undefined {
+    return this.items.shift()?.element;
+  }
+
+  peek(): string | undefined {
+    return this.items[0]?.element;
+  }
+
+  peekPriority(): number {
+    return this.items.length > 0 ? this.items[0].priority : Infinity;
+  }
+}
+
+export function createQueue(kind: QueueKind = DEFAULT_QUEUE): PriorityQueue {
+  switch (kind) {
+    case 'pairing':
+      return new PairingHeapQueue();
+    case 'fibonacci':
+      return new FibonacciHeapQueue();
+    case 'radix':
+      return new RadixHeapQueue();
+    case 'sorted-array':
+      return new SortedArrayQueue();
+    default:
+      return new BinaryHeapQueue();
+  }
+}
@@ -0,0 +1,65 @@
+// utils/queueBenchmark.ts
+// Runs every algorithm that takes a priority queue with each queue implementation on
+// the same query, to show how much of its runtime is the queue. Each pairing runs as
+// one scheduled job of several repeats and reports the median time, so a slow queue
+// times out on its own without stopping the rest of the benchmark.
+import { RunContext, algorithms } from './algorithmRegistry';
+import { QueueKind, queueKinds } from './priorityQueues';
+import { JobScheduler, JobStatus, jobStatus } from './scheduler';
+
+export const BENCHMARK_REPEATS = 3;
+
+export interface QueueBenchmarkCell {
+  status: JobStatus;
+  time?: number; // median ms over the repeats
+  nodesVisited?: number;
+}
+
+// Algorithm id → queue → measurement
+export type QueueBenchmark = Record<string, Partial<Record<QueueKind, QueueBenchmarkCell>>>;
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = sorted.length >> 1;
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export const queueBenchmarkAlgorithms = () =>
+  algorithms.filter((definition) => definition.parameters.includes('queue'));
+
+export async function benchmarkQueues(
+  context: Omit<RunContext, 'onProgress'>,
+  scheduler: JobScheduler,
+  onCell: (algorithm: string, queue: QueueKind, cell: QueueBenchmarkCell, progress: number) => void
+): Promise<QueueBenchmark> {
+  const benchmark: QueueBenchmark = {};
+  const targets = queueBenchmarkAlgorithms();
+  const total = targets.length * queueKinds.length;
+  let done = 0;
+
+  for (const definition of targets) {
+    benchmark[definition.id] = {};
+    for (const { id: queue } of queueKinds) {
+      const options = { ...context.options, queue };
+      let cell: QueueBenchmarkCell;
+      try {
+        cell = await scheduler.run(async () => {
+          const times: number[] = [];
+          let nodesVisited = 0;
+          for (let i = 0; i < BENCHMARK_REPEATS; i++) {
+            const result = await definition.run({ ...context, options, onProgress: () => {} });
+            times.push(result.time);
+            nodesVisited = result.nodesVisited;
+          }
+          return { status: 'done' as JobStatus, time: median(times), nodesVisited };
+        });
+      } catch (error) {
+        cell = { status: jobStatus(error) };
+        if (cell.status === 'cancelled') throw error;
+      }
+      benchmark[definition.id][queue] = cell;
+      onCell(definition.id, queue, cell, ++done / total);
+    }
+  }
+  return benchmark;
+}
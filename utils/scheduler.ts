@@ -0,0 +1,105 @@
+// utils/scheduler.ts
+// Cooperative scheduling for pathfinding jobs. Nothing runs in the background: jobs
+// run one at a time on the same JS thread as rendering, and a job only lets the screen
+// update when its main loop calls `checkpoint()`. That yields to the event loop once the
+// current time slice is used up, and throws once the job is cancelled or past its
+// timeout, so a stretch of work between checkpoints blocks rendering and overruns the
+// timeout until it ends. Outside a scheduled job `checkpoint()` does nothing, so the
+// algorithms still run on their own, without yielding.
+// Searches time themselves with `busyClock()`, which stops while a job is yielded,
+// so reported times are the search's own work and not the rendering in between.
+
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Pathfinding was cancelled.');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export class JobTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Timed out after ${(timeout / 1000).toFixed(0)}s.`);
+    this.name = 'JobTimeoutError';
+  }
+}
+
+export type JobStatus = 'queued' | 'running' | 'done' | 'failed' | 'timed-out' | 'cancelled';
+
+export const jobTimeouts = [5000, 10000, 30000, 60000]; // ms
+export const DEFAULT_JOB_TIMEOUT = 10000;
+
+const TIME_SLICE = 12; // ms of work between yields, under one 60 Hz frame
+
+interface ActiveJob {
+  scheduler: JobScheduler;
+  deadline: number;
+  timeout: number;
+  sliceStart: number;
+}
+
+// Jobs run one at a time, so the running job can be ambient
+let active: ActiveJob | null = null;
+
+const yieldToEventLoop = () => new Promise<void>((resolve) => setTimeout(resolve, 0));
+
+// Milliseconds jobs have spent handing control back, over the whole session
+let yieldedTime = 0;
+
+export const busyClock = (): number => performance.now() - yieldedTime;
+
+function checkDeadline(): void {
+  if (!active) return;
+  if (active.scheduler.cancelled) throw new JobCancelledError();
+  if (performance.now() > active.deadline) throw new JobTimeoutError(active.timeout);
+}
+
+export async function checkpoint(): Promise<void> {
+  if (!active) return;
+  checkDeadline();
+  if (performance.now() - active.sliceStart < TIME_SLICE) return;
+  const job = active;
+  active = null;
+  const yieldedAt = performance.now();
+  await yieldToEventLoop();
+  yieldedTime += performance.now() - yieldedAt;
+  active = job;
+  job.sliceStart = performance.now();
+  checkDeadline();
+}
+
+export class JobScheduler {
+  cancelled = false;
+
+  constructor(private timeout: number = DEFAULT_JOB_TIMEOUT) {}
+
+  cancel() {
+    this.cancelled = true;
+  }
+
+  // Runs one job under the timeout. Rendering gets a turn before it starts, so
+  // progress from the previous job reaches the screen.
+  async run<T>(job: () => Promise<T>): Promise<T> {
+    await yieldToEventLoop();
+    if (this.cancelled) throw new JobCancelledError();
+
+    const now = performance.now();
+    active = {
+      scheduler: this,
+      deadline: now + this.timeout,
+      timeout: this.timeout,
+      sliceStart: now,
+    };
+    try {
+      return await job();
+    } finally {
+      active = null;
+    }
+  }
+}
+
+export const jobStatus = (error: unknown): JobStatus =>
+  error instanceof JobCancelledError
+    ? 'cancelled'
+    : error instanceof JobTimeoutError
+      ? 'timed-out'
+      : 'failed';
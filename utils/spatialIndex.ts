@@ -0,0 +1,195 @@
+// utils/spatialIndex.ts
+// Uniform grid over the graph's nodes for turning coordinates into nodes without
+// scanning the whole graph. Nodes are bucketed by their position on a local flat
+// projection; a query searches rings of cells outward from the point and stops once
+// no unsearched cell can hold anything closer. Reported distances are haversine
+// meters, as everywhere else. The index is built once per node map and cached; a node
+// map that only adds a few nodes to another one layers them over the other's index.
+import { Node, haversineDistance } from './algorithms';
+
+export const DEFAULT_CELL_SIZE = 100; // meters
+
+const METERS_PER_DEGREE = (6371e3 * Math.PI) / 180;
+// The flat projection is within a fraction of a percent of haversine at city scale;
+// ring bounds are shrunk by this much so a cell is never skipped because of it
+const PROJECTION_SLACK = 0.99;
+
+export interface NodeDistance {
+  node: Node;
+  distance: number; // meters
+}
+
+type Point = { lat: number; lng: number };
+
+export class SpatialIndex {
+  private cells = new Map<string, Node[]>();
+  private lngScale: number;
+  private bounds = { minX: Infinity, maxX: -Infinity, minY: Infinity, maxY: -Infinity };
+  readonly size: number;
+
+  // With a base index, the nodes are added to the base's: its cells are searched
+  // alongside this index's own and are never copied or changed
+  constructor(
+    nodes: Iterable<Node>,
+    private cellSize: number = DEFAULT_CELL_SIZE,
+    private base?: SpatialIndex
+  ) {
+    const list = [...nodes];
+    if (base) {
+      this.cellSize = base.cellSize;
+      this.lngScale = base.lngScale;
+      this.bounds = { ...base.bounds };
+      this.size = base.size + list.length;
+    } else {
+      const meanLat =
+        list.length > 0 ? list.reduce((sum, node) => sum + node.lat, 0) / list.length : 0;
+      this.lngScale = Math.cos((meanLat * Math.PI) / 180);
+      this.size = list.length;
+    }
+
+    for (const node of list) {
+      const [x, y] = this.cellOf(node);
+      const key = `${x},${y}`;
+      if (!this.cells.has(key)) this.cells.set(key, []);
+      this.cells.get(key)!.push(node);
+      this.bounds.minX = Math.min(this.bounds.minX, x);
+      this.bounds.maxX = Math.max(this.bounds.maxX, x);
+      this.bounds.minY = Math.min(this.bounds.minY, y);
+      this.bounds.maxY = Math.max(this.bounds.maxY, y);
+    }
+  }
+
+  // An index of these nodes and `extra`, built over this one
+  withNodes(extra: Node[]): SpatialIndex {
+    return new SpatialIndex(extra, this.cellSize, this);
+  }
+
+  // Nearest node within maxDistance meters that passes the filter, or null
+  nearest(
+    point: Point,
+    maxDistance: number = Infinity,
+    filter?: (node: Node) => boolean
+  ): Node | null {
+    return this.kNearest(point, 1, maxDistance, filter)[0]?.node ?? null;
+  }
+
+  // Up to k nodes within maxDistance meters, nearest first
+  kNearest(
+    point: Point,
+    k: number,
+    maxDistance: number = Infinity,
+    filter?: (node: Node) => boolean
+  ): NodeDistance[] {
+    const found: NodeDistance[] = [];
+    if (k <= 0 || this.size === 0) return found;
+
+    this.searchRings(
+      point,
+      maxDistance,
+      (node) => {
+        if (filter && !filter(node)) return;
+        const distance = haversineDistance(point, node);
+        if (distance > maxDistance) return;
+        if (found.length === k && distance >= found[k - 1].distance) return;
+        // Keep the k best in order; k is small, so insertion is cheap
+        let i = found.length < k ? found.length : k - 1;
+        while (i > 0 && found[i - 1].distance > distance) {
+          found[i] = found[i - 1];
+          i--;
+        }
+        found[i] = { node, distance };
+      },
+      () => (found.length === k ? found[k - 1].distance : maxDistance)
+    );
+
+    return found;
+  }
+
+  // Every node within radius meters, nearest first
+  withinRadius(point: Point, radius: number): NodeDistance[] {
+    const found: NodeDistance[] = [];
+    this.searchRings(
+      point,
+      radius,
+      (node) => {
+        const distance = haversineDistance(point, node);
+        if (distance <= radius) found.push({ node, distance });
+      },
+      () => radius
+    );
+    return found.sort((a, b) => a.distance - b.distance);
+  }
+
+  private cellOf({ lat, lng }: Point): [number, number] {
+    return [
+      Math.floor((lng * this.lngScale * METERS_PER_DEGREE) / this.cellSize),
+      Math.floor((lat * METERS_PER_DEGREE) / this.cellSize),
+    ];
+  }
+
+  // Visits the cells ring by ring around the point's cell. Every node beyond ring r is
+  // at least r cells away, so the search ends once that exceeds `limit()`.
+  private searchRings(
+    point: Point,
+    maxDistance: number,
+    visit: (node: Node) => void,
+    limit: () => number
+  ) {
+    const [cx, cy] = this.cellOf(point);
+    const { minX, maxX, minY, maxY } = this.bounds;
+    // Rings that lie wholly outside the grid hold nothing
+    const firstRing = Math.max(0, minX - cx, cx - maxX, minY - cy, cy - maxY);
+    const lastRing = Math.max(cx - minX, maxX - cx, cy - minY, maxY - cy);
+    if ((firstRing - 1) * this.cellSize * PROJECTION_SLACK > maxDistance) return;
+
+    const visitCell = (x: number, y: number) => this.visitCell(`${x},${y}`, visit);
+
+    for (let r = firstRing; r <= lastRing; r++) {
+      if ((r - 1) * this.cellSize * PROJECTION_SLACK > limit()) break;
+      if (r === 0) {
+        visitCell(cx, cy);
+        continue;
+      }
+      // Top and bottom rows, then the left and right columns between them
+      const fromX = Math.max(cx - r, minX);
+      const toX = Math.min(cx + r, maxX);
+      for (let x = fromX; x <= toX; x++) {
+        if (cy - r >= minY) visitCell(x, cy - r);
+        if (cy + r <= maxY) visitCell(x, cy + r);
+      }
+      const fromY = Math.max(cy - r + 1, minY);
+      const toY = Math.min(cy + r - 1, maxY);
+      for (let y = fromY; y <= toY; y++) {
+        if (cx - r >= minX) visitCell(cx - r, y);
+        if (cx + r <= maxX) visitCell(cx + r, y);
+      }
+    }
+  }
+
+  private visitCell(key: string, visit: (node: Node) => void) {
+    this.cells.get(key)?.forEach(visit);
+    this.base?.visitCell(key, visit);
+  }
+}
+
+const indexes = new WeakMap<Map<string, Node>, SpatialIndex>();
+
+// The index of a node map, built on first use
+export function spatialIndex(nodes: Map<string, Node>): SpatialIndex {
+  let index = indexes.get(nodes);
+  if (!index) {
+    index = new SpatialIndex(nodes.values());
+    indexes.set(nodes, index);
+  }
+  return index;
+}
+
+// Indexes a node map that holds the base map's nodes plus `extra` by layering the
+// extra nodes over the base map's index, so the base nodes are not bucketed again
+export function extendSpatialIndex(
+  nodes: Map<string, Node>,
+  base: Map<string, Node>,
+  extra: Node[]
+) {
+  indexes.set(nodes, spatialIndex(base).withNodes(extra));
+}
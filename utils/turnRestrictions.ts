@@ -0,0 +1,28 @@
+// utils/turnRestrictions.ts
+// Turn restrictions from OpenStreetMap type=restriction relations, resolved to the
+// graph's node ids: `from` is the node before the via node on the from-way and
+// `to` is the node after it on the to-way. Only node-via relations are supported.
+// The records are written by scripts/export_osm_data.py together with utils/nodes.ts
+// and utils/edges.ts, so their node ids match the graph; re-run it to fill the list.
+
+export type RestrictionType =
+  | 'no_left_turn'
+  | 'no_right_turn'
+  | 'no_straight_on'
+  | 'no_u_turn'
+  | 'only_left_turn'
+  | 'only_right_turn'
+  | 'only_straight_on';
+
+export interface TurnRestrictionRecord {
+  id: number; // OSM relation id
+  restriction: RestrictionType;
+  from: string;
+  via: string;
+  to: string;
+}
+
+export const turnRestrictionsData: { source: string; restrictions: TurnRestrictionRecord[] } = {
+  source: 'OpenStreetMap type=restriction relations (node via)',
+  restrictions: [],
+};
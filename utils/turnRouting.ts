@@ -0,0 +1,293 @@
+// utils/turnRouting.ts
+// Edge-based (line graph) routing. Search states are directed edges rather than
+// nodes, so the cost of moving from one edge to the next can depend on the turn
+// between them: turn angles come from node coordinates, U-turns can be banned and
+// OSM turn restrictions are honoured. Dijkstra and A* both run on these states.
+import { Graph, Node, PathfindingResult, findNearestNode, haversineDistance } from './algorithms';
+import { IndexedHeap } from './indexedHeap';
+import { busyClock, checkpoint } from './scheduler';
+import { TurnRestrictionRecord, turnRestrictionsData } from './turnRestrictions';
+
+export type TurnDirection = 'straight' | 'left' | 'right' | 'sharp' | 'u-turn';
+
+export interface TurnCounts {
+  left: number;
+  right: number;
+  sharp: number;
+  uTurn: number;
+  total: number;
+}
+
+export interface TurnOptions {
+  banUTurns: boolean;
+  restrictions: TurnRestrictionRecord[];
+  speed: number; // meters per second; converts turn delays into edge-weight units
+}
+
+export interface TurnAwareResult extends PathfindingResult {
+  turns: TurnCounts;
+  turnPenalty: number; // seconds of turn delay included in the optimised cost
+  restrictionsApplied: number; // restrictions whose turn exists in the searched graph
+}
+
+// Under distance weights a delay is charged as the meters a tricycle covers at
+// 15 km/h in that time. Time weights pass their reference speed instead.
+export const DELAY_SPEED = 4.17; // meters per second
+
+export const defaultTurnOptions: TurnOptions = {
+  banUTurns: true,
+  restrictions: turnRestrictionsData.restrictions,
+  speed: DELAY_SPEED,
+};
+
+// Delay per turn in seconds. Traffic drives on the right, so left turns cross the
+// oncoming lane and cost more than right turns.
+const TURN_DELAYS: Record<TurnDirection, number> = {
+  straight: 0,
+  right: 4,
+  left: 8,
+  sharp: 12,
+  'u-turn': 20,
+};
+
+const STRAIGHT_ANGLE = 30; // degrees either side of straight ahead
+const SHARP_ANGLE = 135;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+// Initial compass bearing from a to b, in degrees
+export const bearing = (
+  a: { lat: number; lng: number },
+  b: { lat: number; lng: number }
+): number => {
+  const φ1 = toRadians(a.lat);
+  const φ2 = toRadians(b.lat);
+  const Δλ = toRadians(b.lng - a.lng);
+  const y = Math.sin(Δλ) * Math.cos(φ2);
+  const x = Math.cos(φ1) * Math.sin(φ2) - Math.sin(φ1) * Math.cos(φ2) * Math.cos(Δλ);
+  return (Math.atan2(y, x) * 180) / Math.PI;
+};
+
+// Signed change of heading at `via`, in (-180, 180]; positive is a right turn
+export const turnAngle = (
+  from: { lat: number; lng: number },
+  via: { lat: number; lng: number },
+  to: { lat: number; lng: number }
+): number => {
+  let angle = bearing(via, to) - bearing(from, via);
+  while (angle > 180) angle -= 360;
+  while (angle <= -180) angle += 360;
+  return angle;
+};
+
+export const classifyTurn = (angle: number, isUTurn: boolean = false): TurnDirection => {
+  if (isUTurn) return 'u-turn';
+  const magnitude = Math.abs(angle);
+  if (magnitude < STRAIGHT_ANGLE) return 'straight';
+  if (magnitude >= SHARP_ANGLE) return 'sharp';
+  return angle > 0 ? 'right' : 'left';
+};
+
+const emptyCounts = (): TurnCounts => ({ left: 0, right: 0, sharp: 0, uTurn: 0, total: 0 });
+
+const addTurn = (counts: TurnCounts, direction: TurnDirection) => {
+  if (direction === 'straight') return;
+  if (direction === 'left') counts.left++;
+  else if (direction === 'right') counts.right++;
+  else if (direction === 'sharp') counts.sharp++;
+  else counts.uTurn++;
+  counts.total++;
+};
+
+// Turn counts along any [lng, lat] path, so node-based results can be compared too
+export function countTurns(path: number[][]): TurnCounts {
+  const counts = emptyCounts();
+  for (let i = 1; i < path.length - 1; i++) {
+    const [a, b, c] = [path[i - 1], path[i], path[i + 1]].map(([lng, lat]) => ({ lat, lng }));
+    const isUTurn = a.lat === c.lat && a.lng === c.lng;
+    addTurn(counts, classifyTurn(turnAngle(a, b, c), isUTurn));
+  }
+  return counts;
+}
+
+// Allowed continuations per (from, via) pair. `only_*` restrictions allow exactly
+// one exit; `no_*` restrictions remove one.
+const buildRestrictionIndex = (restrictions: TurnRestrictionRecord[]) => {
+  const banned = new Map<string, Set<string>>();
+  const only = new Map<string, Set<string>>();
+  for (const record of restrictions) {
+    const key = `${record.from}>${record.via}`;
+    const target = record.restriction.startsWith('only_') ? only : banned;
+    if (!target.has(key)) target.set(key, new Set());
+    target.get(key)!.add(record.to);
+  }
+  return (from: string, via: string, to: string): boolean => {
+    const key = `${from}>${via}`;
+    if (banned.get(key)?.has(to)) return false;
+    const allowed = only.get(key);
+    return !allowed || allowed.has(to);
+  };
+};
+
+// A restriction only takes effect when both of its edges are in the graph. Records
+// resolved against another download, or filtered out by the vehicle profile, do not.
+const countApplied = (graph: Graph, restrictions: TurnRestrictionRecord[]): number => {
+  const hasEdge = (source: string, target: string) =>
+    (graph.edges.get(source) || []).some((edge) => edge.target === target);
+  return restrictions.filter(
+    (record) => hasEdge(record.from, record.via) && hasEdge(record.via, record.to)
+  ).length;
+};
+
+// Dijkstra and A* on the line graph
+export async function turnAwarePathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number },
+  algorithm: 'dijkstra' | 'a-star' = 'dijkstra',
+  options: TurnOptions = defaultTurnOptions
+): Promise<TurnAwareResult> {
+  const startTime = busyClock();
+
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  const isAllowed = buildRestrictionIndex(options.restrictions);
+  const restrictionsApplied = countApplied(graph, options.restrictions);
+  if (options.restrictions.length > 0 && restrictionsApplied === 0) {
+    console.warn(
+      `None of the ${options.restrictions.length} turn restrictions match the graph; re-export them with it`
+    );
+  }
+  const heuristic = (node: Node) => (algorithm === 'a-star' ? haversineDistance(node, endNode) : 0);
+
+  // A state is the directed edge at index `i` of `source`'s adjacency list
+  const stateKey = (source: string, i: number) => `${source}#${i}`;
+  const parseState = (key: string) => {
+    const split = key.lastIndexOf('#');
+    const source = key.slice(0, split);
+    return graph.edges.get(source)![Number(key.slice(split + 1))];
+  };
+
+  if (startNode.osmid === endNode.osmid) {
+    return {
+      path: [[startNode.lng, startNode.lat]],
+      distance: 0,
+      time: busyClock() - startTime,
+      nodesVisited: 0,
+      visitedNodes: [],
+      edgesExplored: 0,
+      pathNodeCount: 1,
+      turns: emptyCounts(),
+      turnPenalty: 0,
+      restrictionsApplied,
+    };
+  }
+
+  const costs = new Map<string, number>();
+  const previous = new Map<string, string>();
+  const settled = new Set<string>();
+  const reachedNodes = new Set<string>([startNode.osmid]);
+  const visitedNodes: number[][] = [[startNode.lng, startNode.lat]];
+  const heap = new IndexedHeap<number>((a, b) => a - b);
+  let edgesExplored = 0;
+  let goalState: string | null = null;
+
+  (graph.edges.get(startNode.osmid) || []).forEach((edge, i) => {
+    const key = stateKey(startNode.osmid, i);
+    if (edge.weight < (costs.get(key) ?? Infinity)) {
+      costs.set(key, edge.weight);
+      heap.push(key, edge.weight + heuristic(graph.nodes.get(edge.target)!));
+    }
+  });
+
+  while (!heap.isEmpty()) {
+    await checkpoint();
+    const { id: current } = heap.pop()!;
+    settled.add(current);
+    const edge = parseState(current);
+    const via = edge.target;
+
+    if (!reachedNodes.has(via)) {
+      reachedNodes.add(via);
+      const viaNode = graph.nodes.get(via)!;
+      visitedNodes.push([viaNode.lng, viaNode.lat]);
+    }
+    if (via === endNode.osmid) {
+      goalState = current;
+      break;
+    }
+
+    const fromNode = graph.nodes.get(edge.source)!;
+    const viaNode = graph.nodes.get(via)!;
+    const nextEdges = graph.edges.get(via) || [];
+    edgesExplored += nextEdges.length;
+    nextEdges.forEach((next, i) => {
+      const key = stateKey(via, i);
+      if (settled.has(key)) return;
+      const isUTurn = next.target === edge.source;
+      if (isUTurn && options.banUTurns) return;
+      if (!isAllowed(edge.source, via, next.target)) return;
+
+      const toNode = graph.nodes.get(next.target)!;
+      const direction = classifyTurn(turnAngle(fromNode, viaNode, toNode), isUTurn);
+      const cost = costs.get(current)! + TURN_DELAYS[direction] * options.speed + next.weight;
+      if (cost < (costs.get(key) ?? Infinity)) {
+        costs.set(key, cost);
+        previous.set(key, current);
+        heap.push(key, cost + heuristic(toNode));
+      }
+    });
+  }
+
+  if (!goalState) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  // Walk the edge chain back, summing lengths and classifying each turn
+  const edgeChain: string[] = [];
+  for (let key: string | undefined = goalState; key !== undefined; key = previous.get(key)) {
+    edgeChain.unshift(key);
+  }
+  const chain = edgeChain.map(parseState);
+  const path: number[][] = [[startNode.lng, startNode.lat]];
+  const turns = emptyCounts();
+  let totalDistance = 0;
+  let turnPenalty = 0;
+  chain.forEach((edge, i) => {
+    const node = graph.nodes.get(edge.target)!;
+    path.push([node.lng, node.lat]);
+    totalDistance += edge.weight;
+    if (i > 0) {
+      const prev = chain[i - 1];
+      const direction = classifyTurn(
+        turnAngle(graph.nodes.get(prev.source)!, graph.nodes.get(prev.target)!, node),
+        edge.target === prev.source
+      );
+      addTurn(turns, direction);
+      turnPenalty += TURN_DELAYS[direction];
+    }
+  });
+
+  const executionTime = busyClock() - startTime;
+
+  return {
+    path,
+    distance: totalDistance / 1000,
+    time: executionTime,
+    nodesVisited: settled.size,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+    turns,
+    turnPenalty,
+    restrictionsApplied,
+  };
+}
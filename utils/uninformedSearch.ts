@@ -0,0 +1,256 @@
+// utils/uninformedSearch.ts
+// Breadth-first, depth-first and iterative-deepening depth-first search. None of
+// them look at edge weights: BFS and IDDFS minimise the number of hops, DFS takes
+// whatever route it stumbles on first. They are baselines that show why the
+// weighted algorithms matter on a road network.
+import { Graph, Node, PathfindingResult, findNearestNode } from './algorithms';
+import { busyClock, checkpoint } from './scheduler';
+
+export interface UninformedResult extends PathfindingResult {
+  hopCount: number; // edges on the returned path
+  iterations?: number; // depth limits tried (IDDFS only)
+}
+
+const resolveEndpoints = (
+  name: string,
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): { startNode: Node; endNode: Node } => {
+  if (!graph || !graph.nodes || !graph.edges) {
+    throw new Error('Invalid graph: nodes or edges are missing');
+  }
+
+  const startNode = findNearestNode(graph.nodes, start);
+  const endNode = findNearestNode(graph.nodes, end);
+  if (!startNode || !endNode) {
+    throw new Error('Start or end node not found in the graph.');
+  }
+
+  return { startNode, endNode };
+};
+
+// Follows parent links back from the goal. Each hop is charged the cheapest
+// parallel edge, since the search itself never compared weights.
+const buildResult = (
+  name: string,
+  graph: Graph,
+  goal: string,
+  previous: Map<string, string>,
+  startTime: number,
+  nodesVisited: number,
+  visitedNodes: number[][],
+  edgesExplored: number,
+  iterations?: number
+): UninformedResult => {
+  const path: number[][] = [];
+  let totalDistance = 0;
+  let current: string | undefined = goal;
+  while (current !== undefined) {
+    const node = graph.nodes.get(current)!;
+    path.unshift([node.lng, node.lat]);
+    const prev = previous.get(current);
+    if (prev !== undefined) {
+      const target = current;
+      const weights = (graph.edges.get(prev) || [])
+        .filter((e) => e.target === target)
+        .map((e) => e.weight);
+      totalDistance += Math.min(...weights);
+    }
+    current = prev;
+  }
+
+  const executionTime = busyClock() - startTime;
+  const hopCount = path.length - 1;
+
+  return {
+    path,
+    distance: totalDistance / 1000,
+    time: executionTime,
+    nodesVisited,
+    visitedNodes,
+    edgesExplored,
+    pathNodeCount: path.length,
+    hopCount,
+    iterations,
+  };
+};
+
+// BFS Implementation (fewest hops)
+export async function bfsPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<UninformedResult> {
+  const startTime = busyClock();
+  const { startNode, endNode } = resolveEndpoints('BFS', graph, start, end);
+
+  const previous = new Map<string, string>();
+  const discovered = new Set<string>([startNode.osmid]);
+  const visitedNodes: number[][] = [];
+  let nodesVisited = 0;
+  let edgesExplored = 0;
+  // Array with a moving head instead of shift(), which is O(n) per call
+  const queue: string[] = [startNode.osmid];
+  let head = 0;
+
+  while (head < queue.length) {
+    await checkpoint();
+    const current = queue[head++];
+    const node = graph.nodes.get(current)!;
+    visitedNodes.push([node.lng, node.lat]);
+    nodesVisited++;
+
+    if (current === endNode.osmid) break;
+
+    const edges = graph.edges.get(current) || [];
+    edgesExplored += edges.length;
+    for (const edge of edges) {
+      if (discovered.has(edge.target)) continue;
+      discovered.add(edge.target);
+      previous.set(edge.target, current);
+      queue.push(edge.target);
+    }
+  }
+
+  if (!discovered.has(endNode.osmid)) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  return buildResult(
+    'BFS',
+    graph,
+    endNode.osmid,
+    previous,
+    startTime,
+    nodesVisited,
+    visitedNodes,
+    edgesExplored
+  );
+}
+
+// DFS Implementation (first path found, neither shortest nor fewest hops)
+export async function dfsPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<UninformedResult> {
+  const startTime = busyClock();
+  const { startNode, endNode } = resolveEndpoints('DFS', graph, start, end);
+
+  const previous = new Map<string, string>();
+  const visited = new Set<string>();
+  const visitedNodes: number[][] = [];
+  let edgesExplored = 0;
+  // Explicit stack: recursion would overflow on long road chains
+  const stack: { id: string; parent: string | null }[] = [{ id: startNode.osmid, parent: null }];
+
+  while (stack.length > 0) {
+    await checkpoint();
+    const { id: current, parent } = stack.pop()!;
+    if (visited.has(current)) continue;
+    visited.add(current);
+    if (parent !== null) previous.set(current, parent);
+
+    const node = graph.nodes.get(current)!;
+    visitedNodes.push([node.lng, node.lat]);
+
+    if (current === endNode.osmid) break;
+
+    const edges = graph.edges.get(current) || [];
+    edgesExplored += edges.length;
+    // Pushed in reverse so neighbours are explored in adjacency order
+    for (let i = edges.length - 1; i >= 0; i--) {
+      if (!visited.has(edges[i].target)) stack.push({ id: edges[i].target, parent: current });
+    }
+  }
+
+  if (!visited.has(endNode.osmid)) {
+    throw new Error('No path found between start and end nodes.');
+  }
+
+  return buildResult(
+    'DFS',
+    graph,
+    endNode.osmid,
+    previous,
+    startTime,
+    visited.size,
+    visitedNodes,
+    edgesExplored
+  );
+}
+
+// Iterative Deepening DFS Implementation (fewest hops with DFS memory use)
+// Each round is a depth-limited DFS. A vertex is only re-expanded within a round
+// when it is reached at a smaller depth, which keeps rounds linear on road graphs
+// where a pure tree search would blow up on cycles.
+export async function iddfsPathfinding(
+  graph: Graph,
+  start: { lat: number; lng: number },
+  end: { lat: number; lng: number }
+): Promise<UninformedResult> {
+  const startTime = busyClock();
+  const { startNode, endNode } = resolveEndpoints('IDDFS', graph, start, end);
+
+  const everVisited = new Set<string>();
+  const visitedNodes: number[][] = [];
+  let nodesVisited = 0;
+  let edgesExplored = 0;
+  let iterations = 0;
+
+  for (let limit = 0; limit < graph.nodes.size; limit++) {
+    iterations++;
+    const depthReached = new Map<string, number>([[startNode.osmid, 0]]);
+    const previous = new Map<string, string>();
+    const stack: { id: string; depth: number }[] = [{ id: startNode.osmid, depth: 0 }];
+    let cutOff = false;
+
+    while (stack.length > 0) {
+      await checkpoint();
+      const { id: current, depth } = stack.pop()!;
+      if (depthReached.get(current)! < depth) continue; // superseded by a shallower visit
+
+      nodesVisited++;
+      if (!everVisited.has(current)) {
+        everVisited.add(current);
+        const node = graph.nodes.get(current)!;
+        visitedNodes.push([node.lng, node.lat]);
+      }
+
+      if (current === endNode.osmid) {
+        return buildResult(
+          'IDDFS',
+          graph,
+          endNode.osmid,
+          previous,
+          startTime,
+          nodesVisited,
+          visitedNodes,
+          edgesExplored,
+          iterations
+        );
+      }
+      if (depth === limit) {
+        cutOff = true;
+        continue;
+      }
+
+      const edges = graph.edges.get(current) || [];
+      edgesExplored += edges.length;
+      for (let i = edges.length - 1; i >= 0; i--) {
+        const neighbor = edges[i].target;
+        const seen = depthReached.get(neighbor);
+        if (seen !== undefined && seen <= depth + 1) continue;
+        depthReached.set(neighbor, depth + 1);
+        previous.set(neighbor, current);
+        stack.push({ id: neighbor, depth: depth + 1 });
+      }
+    }
+
+    // Nothing was cut off, so a deeper limit cannot reach anything new
+    if (!cutOff) break;
+  }
+
+  throw new Error('No path found between start and end nodes.');
+}
@@ -0,0 +1,122 @@
+// utils/vehicleProfiles.ts
+// Vehicle profiles. A profile decides which road classes may be used at all, how fast
+// each class is travelled and whether one-way rules apply. The comparison screen
+// filters the graph through the active profile and weights it with the profile's
+// speed table before any algorithm runs, so every algorithm sees the same network.
+import { Edge, Graph, Node } from './algorithms';
+import { SpeedTable, WeightingConfig, WeightMetric } from './weighting';
+
+export type VehicleProfileId = 'trimobile' | 'e-trike' | 'pedestrian';
+
+export interface VehicleProfile {
+  id: VehicleProfileId;
+  name: string;
+  speeds: SpeedTable; // km/h per highway class
+  maxSpeed: number; // km/h
+  forbiddenClasses: string[]; // highway classes this vehicle may not enter
+  respectsOneWay: boolean;
+  capacity: number; // passengers, including the driver's seat for vehicles
+}
+
+// Foot-only classes. Pedestrians may use them; vehicles may not.
+export const FOOTWAY_CLASSES = ['footway', 'path', 'pedestrian', 'steps', 'corridor', 'cycleway'];
+
+// Tricycles are barred from national highways, which OSM tags as motorway and trunk
+const NATIONAL_HIGHWAYS = ['motorway', 'trunk'];
+
+export const vehicleProfiles: VehicleProfile[] = [
+  {
+    id: 'trimobile',
+    name: 'Trimobile',
+    speeds: {
+      primary: 35,
+      secondary: 30,
+      tertiary: 25,
+      unclassified: 20,
+      residential: 20,
+      living_street: 10,
+      service: 15,
+      track: 10,
+      road: 20,
+    },
+    maxSpeed: 40,
+    forbiddenClasses: [...NATIONAL_HIGHWAYS, ...FOOTWAY_CLASSES],
+    respectsOneWay: true,
+    capacity: 5,
+  },
+  {
+    id: 'e-trike',
+    name: 'E-trike',
+    speeds: {
+      primary: 30,
+      secondary: 25,
+      tertiary: 25,
+      unclassified: 20,
+      residential: 20,
+      living_street: 10,
+      service: 15,
+      track: 8,
+      road: 20,
+    },
+    maxSpeed: 30,
+    forbiddenClasses: [...NATIONAL_HIGHWAYS, ...FOOTWAY_CLASSES],
+    respectsOneWay: true,
+    capacity: 8,
+  },
+  {
+    id: 'pedestrian',
+    name: 'Pedestrian',
+    speeds: {},
+    maxSpeed: 5,
+    forbiddenClasses: ['motorway'],
+    respectsOneWay: false,
+    capacity: 1,
+  },
+];
+
+export const DEFAULT_PROFILE: VehicleProfileId = 'trimobile';
+
+export const getProfile = (id: VehicleProfileId): VehicleProfile =>
+  vehicleProfiles.find((profile) => profile.id === id) || vehicleProfiles[0];
+
+export const profileWeighting = (
+  profile: VehicleProfile,
+  metric: WeightMetric
+): WeightingConfig => ({
+  metric,
+  speeds: profile.speeds,
+  maxSpeed: profile.maxSpeed,
+});
+
+// Edges of an unknown class are kept: the exports do not always carry `highway`
+const isAllowed = (edge: Edge, profile: VehicleProfile): boolean =>
+  edge.highway === undefined || !profile.forbiddenClasses.includes(edge.highway);
+
+const filteredGraphs = new WeakMap<Graph, Map<VehicleProfileId, Graph>>();
+
+// The part of the network the profile may use. Nodes left without any edge are
+// dropped too, so start and end points snap to a reachable intersection.
+export function filterGraph(graph: Graph, profile: VehicleProfile): Graph {
+  if (!filteredGraphs.has(graph)) filteredGraphs.set(graph, new Map());
+  const cached = filteredGraphs.get(graph)!.get(profile.id);
+  if (cached) return cached;
+
+  const edges = new Map<string, Edge[]>();
+  const usedNodes = new Set<string>();
+  for (const [source, edgeList] of graph.edges.entries()) {
+    const allowed = edgeList.filter((edge) => isAllowed(edge, profile));
+    if (allowed.length === 0) continue;
+    edges.set(source, allowed);
+    usedNodes.add(source);
+    for (const edge of allowed) usedNodes.add(edge.target);
+  }
+
+  const nodes = new Map<string, Node>();
+  for (const [id, node] of graph.nodes.entries()) {
+    if (usedNodes.has(id)) nodes.set(id, node);
+  }
+
+  const filtered = { nodes, edges };
+  filteredGraphs.get(graph)!.set(profile.id, filtered);
+  return filtered;
+}
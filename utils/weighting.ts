@@ -0,0 +1,193 @@
+// utils/weighting.ts
+// Edge weighting. Every edge gets a speed from its OSM `maxspeed` tag or, when that
+// is missing, from the default for its `highway` class. The search can then optimise
+// either length or travel time. Time weights are expressed as "meters at the fastest
+// speed in the graph" (seconds × reference speed), so they are never shorter than the
+// straight-line distance and the haversine heuristics of A*, ALT and friends stay
+// admissible without changes.
+import { Edge, Graph, Node, haversineDistance } from './algorithms';
+import { spatialIndex } from './spatialIndex';
+
+export type WeightMetric = 'distance' | 'time';
+
+export const weightMetrics: { id: WeightMetric; name: string }[] = [
+  { id: 'distance', name: 'Distance' },
+  { id: 'time', name: 'Travel time' },
+];
+
+// Default speeds per OSM highway class, km/h. `_link` roads use their parent class.
+export type SpeedTable = Record<string, number>;
+
+export const defaultSpeeds: SpeedTable = {
+  motorway: 80,
+  trunk: 60,
+  primary: 50,
+  secondary: 40,
+  tertiary: 30,
+  unclassified: 25,
+  residential: 20,
+  living_street: 10,
+  service: 15,
+  track: 10,
+  road: 20,
+};
+
+export const FALLBACK_SPEED = 20; // km/h, for classes missing from the table
+
+export interface WeightingConfig {
+  metric: WeightMetric;
+  speeds: SpeedTable;
+  maxSpeed?: number; // km/h; the vehicle's top speed caps tagged limits and class defaults
+}
+
+export const defaultWeighting: WeightingConfig = {
+  metric: 'distance',
+  speeds: defaultSpeeds,
+};
+
+export interface WeightedEdge extends Edge {
+  length: number; // meters
+  duration: number; // seconds
+}
+
+export interface WeightedGraph {
+  nodes: Map<string, Node>;
+  edges: Map<string, WeightedEdge[]>;
+  metric: WeightMetric;
+  referenceSpeed: number; // meters per second; converts durations into time weights
+  fallbackSpeed: number; // meters per second; for path hops with no matching edge
+}
+
+// OSMnx joins the tags of merged ways into list strings such as "['residential', 'tertiary']"
+export const firstValue = (value: unknown): string | undefined => {
+  if (Array.isArray(value)) return value.length > 0 ? firstValue(value[0]) : undefined;
+  if (value === null || value === undefined) return undefined;
+  const text = String(value).trim();
+  if (text.startsWith('[')) return firstValue(text.slice(1, -1).split(',')[0]);
+  return text.replace(/^['"]|['"]$/g, '') || undefined;
+};
+
+export const parseRoadClass = (highway: unknown): string | undefined =>
+  firstValue(highway)?.replace(/_link$/, '');
+
+// "40", "40 km/h", "25 mph" or a list of those; the lowest limit wins
+export const parseMaxspeed = (maxspeed: unknown): number | undefined => {
+  const values = Array.isArray(maxspeed)
+    ? maxspeed
+    : typeof maxspeed === 'string' && maxspeed.trim().startsWith('[')
+      ? maxspeed.trim().slice(1, -1).split(',')
+      : [maxspeed];
+  let lowest: number | undefined;
+  for (const value of values) {
+    const text = firstValue(value);
+    const match = text?.match(/^(\d+(?:\.\d+)?)\s*(mph|km\/h|kmh|kph)?$/i);
+    if (!match) continue;
+    const speed = parseFloat(match[1]) * (match[2]?.toLowerCase() === 'mph' ? 1.609344 : 1);
+    if (speed > 0 && (lowest === undefined || speed < lowest)) lowest = speed;
+  }
+  return lowest;
+};
+
+// Speed of one edge in km/h
+export const edgeSpeed = (
+  edge: Edge,
+  speeds: SpeedTable = defaultSpeeds,
+  maxSpeed: number = Infinity
+): number =>
+  Math.min(
+    edge.maxspeed ??
+      (edge.highway !== undefined ? speeds[edge.highway] : undefined) ??
+      FALLBACK_SPEED,
+    maxSpeed
+  );
+
+const weightedGraphs = new WeakMap<Graph, Map<string, WeightedGraph>>();
+
+export function applyWeighting(
+  graph: Graph,
+  config: WeightingConfig = defaultWeighting
+): WeightedGraph {
+  const key = `${config.metric}:${config.maxSpeed}:${JSON.stringify(config.speeds)}`;
+  if (!weightedGraphs.has(graph)) weightedGraphs.set(graph, new Map());
+  const cached = weightedGraphs.get(graph)!.get(key);
+  if (cached) return cached;
+
+  const edges = new Map<string, WeightedEdge[]>();
+  let referenceSpeed = 0;
+  for (const [source, edgeList] of graph.edges.entries()) {
+    edges.set(
+      source,
+      edgeList.map((edge) => {
+        const speed = edgeSpeed(edge, config.speeds, config.maxSpeed) / 3.6;
+        referenceSpeed = Math.max(referenceSpeed, speed);
+        return { ...edge, length: edge.weight, duration: edge.weight / speed };
+      })
+    );
+  }
+
+  if (config.metric === 'time') {
+    for (const edgeList of edges.values()) {
+      for (const edge of edgeList) edge.weight = edge.duration * referenceSpeed;
+    }
+  }
+
+  const weighted: WeightedGraph = {
+    nodes: graph.nodes,
+    edges,
+    metric: config.metric,
+    referenceSpeed,
+    fallbackSpeed: Math.min(FALLBACK_SPEED, config.maxSpeed ?? Infinity) / 3.6,
+  };
+  weightedGraphs.get(graph)!.set(key, weighted);
+  return weighted;
+}
+
+// The node a path vertex was taken from, which lies at exactly its coordinates
+const nodeAt = (nodes: Map<string, Node>, [lng, lat]: number[]): string | undefined =>
+  spatialIndex(nodes).nearest({ lat, lng }, 0)?.osmid;
+
+// The edge a search takes between two consecutive [lng, lat] path vertices: the
+// cheapest one when parallel edges join them
+export function pathEdge(
+  graph: WeightedGraph,
+  from: number[],
+  to: number[]
+): WeightedEdge | undefined {
+  const source = nodeAt(graph.nodes, from);
+  const target = nodeAt(graph.nodes, to);
+  let best: WeightedEdge | undefined;
+  for (const edge of (source !== undefined && graph.edges.get(source)) || []) {
+    if (edge.target === target && (!best || edge.weight < best.weight)) best = edge;
+  }
+  return best;
+}
+
+// Length, travel time and search cost along a [lng, lat] path, taking the cheapest
+// edge for each hop. Hops with no matching edge are measured as straight lines at
+// the graph's fallback speed.
+export function measurePath(
+  graph: WeightedGraph,
+  path: number[][]
+): { length: number; duration: number; cost: number } {
+  let length = 0;
+  let duration = 0;
+  let cost = 0;
+  for (let i = 1; i < path.length; i++) {
+    const best = pathEdge(graph, path[i - 1], path[i]);
+    if (best) {
+      length += best.length;
+      duration += best.duration;
+      cost += best.weight;
+    } else {
+      const [[lng1, lat1], [lng2, lat2]] = [path[i - 1], path[i]];
+      const straight = haversineDistance({ lat: lat1, lng: lng1 }, { lat: lat2, lng: lng2 });
+      length += straight;
+      duration += straight / graph.fallbackSpeed;
+      cost +=
+        graph.metric === 'time'
+          ? (straight / graph.fallbackSpeed) * graph.referenceSpeed
+          : straight;
+    }
+  }
+  return { length, duration, cost };
+}